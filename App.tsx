@@ -1,57 +1,331 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { SessionStatus, TranscriptionEntry } from './types';
-import { decode, decodeAudioData, createBlob } from './utils';
+import React, { useState, useRef, useCallback, useEffect, useMemo, useReducer } from 'react';
+import { SessionStatus, AppError, AudioFileJob, AuthSession, ErrorStage, Glossary, HistoryEntry, Language, Phrase, PhraseDraft, Phrasebook, PracticeResult, SessionMetrics, Speaker, TranslationJob, TranslationResult, UserSettings } from './types';
+import { decode, decodeAudioData, concatBytes, encodeWav } from './utils';
 import { VoiceVisualizer } from './components/VoiceVisualizer';
+import { HistoryPanel } from './components/HistoryPanel';
+import { EntryAudioControls } from './components/EntryAudioControls';
+import { LanguagePicker } from './components/LanguagePicker';
+import { BatchProgress } from './components/BatchProgress';
+import { SessionModeSelector } from './components/SessionModeSelector';
+import { GlossaryManager } from './components/GlossaryManager';
+import { GlossaryViolations } from './components/GlossaryViolations';
+import { InputGateControls } from './components/InputGateControls';
+import { TextComposer } from './components/TextComposer';
+import { ErrorNotice } from './components/ErrorNotice';
+import { AudioFileInput } from './components/AudioFileInput';
+import { AudioSettingsPanel } from './components/AudioSettingsPanel';
+import { SessionStatsPanel } from './components/SessionStatsPanel';
+import { PhrasebookPanel } from './components/PhrasebookPanel';
+import { PhraseSaveButton } from './components/PhraseSaveButton';
+import { PracticeCard } from './components/PracticeCard';
+import { VoicePicker } from './components/VoicePicker';
+import { VoiceProfilesPanel } from './components/VoiceProfilesPanel';
+import { CAPTURE_SAMPLE_RATE, CapturedChunk, MicrophoneCapture, startMicrophoneCapture } from './audio/capture';
+import { InputGate } from './audio/inputGate';
+import { SPEECH_LEVEL_DB } from './audio/levels';
+import { AudioFileStream, decodeAudioFile, streamAudioSamples } from './audio/fileSource';
+import { AudioDeviceList, listAudioDevices, microphoneConstraints, resolveDevice, setOutputDevice, supportsOutputSelection } from './audio/devices';
+import { LiveRealtimeInput, LiveTransport } from './services/liveTransport';
+import { createGeminiTransport } from './services/geminiTransport';
+import { fetchLiveToken } from './services/relayClient';
+import { createAuthProvider, loadAuthSession, msUntilRefresh, saveAuthSession } from './services/authProvider';
+import { AUDITION_REPLAY_SCRIPT, createReplayTransport, DEMO_REPLAY_SCRIPT } from './services/replayTransport';
+import { createEntryId, saveEntry, saveEntryWithAudio, updateEntry } from './services/historyStore';
+import { DEFAULT_QUICK_TILES, detectLanguageByScript, getLanguage, pairLanguageOf, textDirection } from './services/languageCatalog';
+import { buildSystemInstruction, practicePrompt, PRACTICE_END_PROMPT, reconnectInstruction, typedPhrasePrompt } from './services/promptBuilder';
+import { classifyError, diagnosticsReport } from './services/appErrors';
+import { entryLabel } from './services/entryLabels';
+import { checkGlossary, loadGlossaries, saveGlossaries } from './services/glossary';
+import { advanceBatch, batchPrompt, cancelQueued, createBatch, groupByVoice, isBatchRunning } from './services/translationBatch';
+import { DEFAULT_SETTINGS, loadUserSettings, saveUserSettings, withRecent } from './services/userSettings';
+import { appendSessionMetrics, createSessionMetrics, loadSessionMetrics, saveSessionMetrics } from './services/sessionMetrics';
+import { addPhrase, createPhrase, createPhrasebook, loadPhrasebooks, phraseFromEntry, savePhrasebooks } from './services/phrasebook';
+import { scorePronunciation } from './services/pronunciation';
+import { voiceForLanguage } from './services/voiceCatalog';
+import { auditionVoice } from './services/voiceAudition';
+import { INITIAL_WORKFLOW, isLivePhase, sessionStatus, showsLanguageMenu, transitionWorkflow } from './services/translationWorkflow';
+import { createTranslationSession, mediaBytes, TranslationSession } from './services/translationSession';
 
-const SYSTEM_INSTRUCTION = `
-You are the "Neural Polyglot Assistant." 
-Your workflow is strictly as follows:
-1. RECORDING PHASE: You listen silently while the user speaks.
-2. CONFIRMATION & OPTIONS: Immediately after the user finishes their phrase, you must say: "I've recorded that. Would you like me to translate it into Urdu, Telugu, Hindi, Kannada, Tamil, or any other language?"
-3. TRANSLATION PHASE: Once they provide a language name (e.g., "Telugu"), you perform the translation using a native-quality voice.
-4. FOLLOW-UP: After translating, ask: "Would you like another language for this same phrase, or should we record a new one?"
+const OUTPUT_SAMPLE_RATE = 24000;
+// Cap on buffered mic audio per turn: 60 s of 16-bit mono at 16 kHz.
+const MAX_INPUT_AUDIO_BYTES = 60 * CAPTURE_SAMPLE_RATE * 2;
+// Audio held while reconnecting: the last 10 s, enough to cover a short drop.
+const MAX_PENDING_AUDIO_BYTES = 10 * CAPTURE_SAMPLE_RATE * 2;
 
-You support all global languages but prioritize listing Urdu, Telugu, Hindi, Kannada, and Tamil as the primary options. Be professional, sophisticated, and act as a high-end AI dashboard.
-`;
+const AUTH_PROVIDER = createAuthProvider();
 
-const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
-const INDIAN_LANGUAGES = ['Urdu', 'Telugu', 'Hindi', 'Kannada', 'Tamil'];
-
-const GOOGLE_ACCOUNTS = [
-  { name: 'Alex Thompson', email: 'alex.thompson@gmail.com', avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Alex' },
-  { name: 'Developer User', email: 'dev.workspace@gmail.com', avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Dev' },
-  { name: 'Guest Translator', email: 'guest.access@gmail.com', avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Guest' },
-];
+const speakerOf = (language: Language | undefined, pair: [Language, Language] | null): Speaker | undefined =>
+  !language || !pair ? undefined : language.code === pair[0].code ? 'A' : language.code === pair[1].code ? 'B' : undefined;
 
 const App: React.FC = () => {
-  const [authStep, setAuthStep] = useState<'LOGIN' | 'SELECT_ACCOUNT' | 'DASHBOARD'>('LOGIN');
-  const [userProfile, setUserProfile] = useState<{name: string, email: string, avatar: string} | null>(null);
-  const [status, setStatus] = useState<SessionStatus>(SessionStatus.IDLE);
-  const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  // The dashboard is only reachable with a session; these steps cover everything before it.
+  const [authStep, setAuthStep] = useState<'RESTORING' | 'LOGIN' | 'SELECT_ACCOUNT'>('RESTORING');
+  const [authSession, setAuthSession] = useState<AuthSession | null>(null);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const userProfile = authSession?.user ?? null;
+  // The relay verifies this on every token request; it changes on each refresh, unlike the profile.
+  const accessTokenRef = useRef<string | null>(null);
+  accessTokenRef.current = authSession?.accessToken ?? null;
+  const [workflow, dispatchWorkflow] = useReducer(transitionWorkflow, INITIAL_WORKFLOW);
+  const status = sessionStatus(workflow.phase);
+  const [transcriptions, setTranscriptions] = useState<HistoryEntry[]>([]);
   const [isModelSpeaking, setIsModelSpeaking] = useState(false);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [selectedVoice, setSelectedVoice] = useState('Kore');
-  const [hasRecorded, setHasRecorded] = useState(false);
+  const [appError, setAppError] = useState<AppError | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyRevision, setHistoryRevision] = useState(0);
+  const [keepInputAudio, setKeepInputAudio] = useState(false);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  // Mirrors `settings` so `updateSettings` can build on the latest without a state updater.
+  const settingsRef = useRef<UserSettings>(DEFAULT_SETTINGS);
+  const [isMultiSelect, setIsMultiSelect] = useState(false);
+  const [batchSelection, setBatchSelection] = useState<string[]>([]);
+  const [batch, setBatch] = useState<TranslationJob[]>([]);
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isTransmitting, setIsTransmitting] = useState(false);
+  const [audioFileJob, setAudioFileJob] = useState<AudioFileJob | null>(null);
+  const [analysers, setAnalysers] = useState<{ input: AnalyserNode | null; output: AnalyserNode | null }>({ input: null, output: null });
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+  const [isAudioSettingsOpen, setIsAudioSettingsOpen] = useState(false);
+  const [sessionMetrics, setSessionMetrics] = useState<SessionMetrics | null>(null);
+  const [metricsHistory, setMetricsHistory] = useState<SessionMetrics[]>([]);
+  // Mirrors `metricsHistory` so `cleanup` can append to it without a state updater.
+  const metricsHistoryRef = useRef<SessionMetrics[]>([]);
+  const [phrasebooks, setPhrasebooks] = useState<Phrasebook[]>([]);
+  const [isPhrasebookOpen, setIsPhrasebookOpen] = useState(false);
+  const [isVoiceProfilesOpen, setIsVoiceProfilesOpen] = useState(false);
+  // The voice a live session is switching over to, while the new connection opens.
+  const [switchingVoice, setSwitchingVoice] = useState<string | null>(null);
+  const [practice, setPractice] = useState<{ phrase: Phrase; result: PracticeResult | null } | null>(null);
   
   const audioContextInRef = useRef<AudioContext | null>(null);
   const audioContextOutRef = useRef<AudioContext | null>(null);
-  const sessionRef = useRef<any>(null);
+  const sessionRef = useRef<TranslationSession | null>(null);
   const nextStartTimeRef = useRef<number>(0);
+  // Model playback is routed through this on its way to the speakers, for metering.
+  const outputAnalyserRef = useRef<AnalyserNode | null>(null);
   const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const transcriptionBufferRef = useRef({ input: '', output: '' });
+  // Raw 16-bit PCM for the current turn: mic input at 16 kHz, model output at 24 kHz.
+  const turnAudioRef = useRef<{ input: Uint8Array[]; inputBytes: number; output: Uint8Array[] }>({ input: [], inputBytes: 0, output: [] });
+  const keepInputAudioRef = useRef(keepInputAudio);
+  keepInputAudioRef.current = keepInputAudio;
   const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<MicrophoneCapture | null>(null);
+  // The constraints the current mic stream was opened with, serialized, to tell when it needs reopening.
+  const micConstraintsRef = useRef<string | null>(null);
+  const sessionIdRef = useRef<string>('');
+  // The phrase currently being translated and the language last requested for it.
+  const translationContextRef = useRef<{ sourceEntryId: string | null; sourceText: string; targetLanguage: string | null }>({ sourceEntryId: null, sourceText: '', targetLanguage: null });
+  // The interpreter-mode language pair for the current session; null in translate mode.
+  const interpreterPairRef = useRef<[Language, Language] | null>(null);
+  // The glossary injected into the current session, checked against each translation.
+  const sessionGlossaryRef = useRef<Glossary | null>(null);
+  // Mirrors `batch` so the session callbacks see the latest queue.
+  const batchRef = useRef<TranslationJob[]>([]);
+  const inputGateRef = useRef(new InputGate(DEFAULT_SETTINGS.inputGate));
+  // The last chunk held back by a closed gate, sent first when it opens so word onsets aren't clipped.
+  const preRollRef = useRef<CapturedChunk | null>(null);
+  // An uploaded file being streamed; the microphone is muted while it plays in.
+  const fileStreamRef = useRef<AudioFileStream | null>(null);
+  // Bumped on cancel so a file still decoding knows not to start streaming.
+  const fileJobTokenRef = useRef(0);
+  // Metrics for the live session; published to `sessionMetrics` at turn boundaries rather than per chunk.
+  const metricsRef = useRef<SessionMetrics | null>(null);
+  // The phrase being practiced; `ending` once the model has been told practice is over but hasn't replied yet.
+  const practiceRef = useRef<{ phrase: Phrase; ending: boolean } | null>(null);
+  // The practice sample is playing; the mic is muted so it isn't heard as an attempt.
+  const practicePlaybackRef = useRef(false);
+  // Mirrors the voice settings so session callbacks pick the voice for each translation from the latest mapping.
+  const voiceProfileRef = useRef(settings.voices);
+  voiceProfileRef.current = settings.voices;
+  const auditionAudioRef = useRef<HTMLAudioElement | null>(null);
+  // `performance.now()` marks for the current turn, for latency and duration.
+  const turnTimingRef = useRef<{ firstInputAt: number | null; lastInputAt: number | null; firstOutputAt: number | null }>({ firstInputAt: null, lastInputAt: null, firstOutputAt: null });
+
+  useEffect(() => {
+    inputGateRef.current.configure(settings.inputGate);
+  }, [settings.inputGate]);
+
+  // Tokens are issued per user, so the transport follows whoever is signed in.
+  const liveTransport = useMemo<LiveTransport>(() => (
+    process.env.LIVE_TRANSPORT === 'replay'
+      ? createReplayTransport(DEMO_REPLAY_SCRIPT)
+      : createGeminiTransport(() => fetchLiveToken(accessTokenRef.current))
+  ), [userProfile]);
+
+  // Voice samples draw on their own token budget, so auditioning can't leave a session unable to reconnect.
+  const auditionTransport = useMemo<LiveTransport>(() => (
+    process.env.LIVE_TRANSPORT === 'replay'
+      ? createReplayTransport(AUDITION_REPLAY_SCRIPT)
+      : createGeminiTransport(() => fetchLiveToken(accessTokenRef.current, 'audition'))
+  ), [userProfile]);
+
+  // Buffers a chunk of the user's audio for the current turn, when they've asked to keep it.
+  const keepInputChunk = useCallback((pcm: Uint8Array) => {
+    if (!keepInputAudioRef.current) return;
+    const turnAudio = turnAudioRef.current;
+    turnAudio.input.push(pcm);
+    turnAudio.inputBytes += pcm.byteLength;
+    while (turnAudio.inputBytes > MAX_INPUT_AUDIO_BYTES) {
+      turnAudio.inputBytes -= turnAudio.input.shift()!.byteLength;
+    }
+  }, []);
+
+  // Folds a change into the live session's metrics; `publish` also refreshes the stats panel.
+  const updateMetrics = useCallback((update: (metrics: SessionMetrics) => SessionMetrics, publish = false) => {
+    if (!metricsRef.current) return;
+    metricsRef.current = update(metricsRef.current);
+    if (publish) setSessionMetrics(metricsRef.current);
+  }, []);
+
+  const countSentAudio = useCallback((input: LiveRealtimeInput) => {
+    const bytes = mediaBytes(input);
+    if (bytes > 0) updateMetrics(m => ({ ...m, audioSentSeconds: m.audioSentSeconds + bytes / 2 / CAPTURE_SAMPLE_RATE }));
+  }, [updateMetrics]);
+
+  // Notes user input for turn timing. Input arriving once the model has started answering doesn't move it.
+  const markUserInput = useCallback(() => {
+    const timing = turnTimingRef.current;
+    if (timing.firstOutputAt !== null) return;
+    const now = performance.now();
+    if (timing.firstInputAt === null) timing.firstInputAt = now;
+    timing.lastInputAt = now;
+  }, []);
+
+  // Sends audio input, or holds it while the connection is being (re)established.
+  const sendAudioInput = useCallback((input: Extract<LiveRealtimeInput, { media: unknown } | { audioStreamEnd: true }>) => {
+    sessionRef.current?.send(input);
+  }, []);
+
+  // Gates each chunk of mic audio and sends what gets through.
+  const handleCapturedChunk = useCallback((chunk: CapturedChunk) => {
+    if (fileStreamRef.current || practicePlaybackRef.current) return;
+    const send = (c: CapturedChunk) => {
+      keepInputChunk(c.pcm);
+      sendAudioInput({ media: c.blob });
+      if (c.levelDb >= SPEECH_LEVEL_DB) markUserInput();
+    };
+    const gate = inputGateRef.current.update(chunk.levelDb, performance.now());
+    if (gate.opened || gate.closed) setIsTransmitting(gate.open);
+    if (!gate.open) {
+      preRollRef.current = chunk;
+      // Tell the model the user paused so it can respond without waiting on silence.
+      if (gate.closed) sendAudioInput({ audioStreamEnd: true });
+      return;
+    }
+    if (gate.opened && preRollRef.current) send(preRollRef.current);
+    preRollRef.current = null;
+    send(chunk);
+  }, [keepInputChunk, sendAudioInput, markUserInput]);
+
+  const refreshAudioDevices = useCallback(() => {
+    listAudioDevices()
+      .then(setAudioDevices)
+      .catch(err => console.warn("Could not list audio devices:", err));
+  }, []);
+
+  useEffect(() => {
+    refreshAudioDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshAudioDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshAudioDevices);
+  }, [refreshAudioDevices]);
+
+  // Saved devices that have been unplugged fall back to the system default until they return.
+  const micConstraints = useMemo(() => microphoneConstraints({
+    ...settings.audio,
+    inputDeviceId: resolveDevice(settings.audio.inputDeviceId, audioDevices.inputs),
+  }), [settings.audio, audioDevices]);
+  const outputDeviceId = resolveDevice(settings.audio.outputDeviceId, audioDevices.outputs);
+
+  useEffect(() => {
+    const ctx = audioContextOutRef.current;
+    if (!ctx) return;
+    setOutputDevice(ctx, outputDeviceId).catch(err => console.warn("Could not switch output device:", err));
+  }, [outputDeviceId]);
+
+  // Reopens the mic mid-session when its settings change or the device in use goes away.
+  useEffect(() => {
+    const ctx = audioContextInRef.current;
+    if (!ctx || !captureRef.current) return;
+    const key = JSON.stringify(micConstraints);
+    const track = streamRef.current?.getAudioTracks()[0];
+    if (key === micConstraintsRef.current && track?.readyState === 'live') return;
+    micConstraintsRef.current = key;
+    // A newer switch, or the session ending, supersedes this one.
+    const isStale = () => audioContextInRef.current !== ctx || micConstraintsRef.current !== key;
+
+    (async () => {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints });
+      } catch (error) {
+        if (!isStale()) setAppError(classifyError(error, 'microphone', true));
+        return;
+      }
+      if (isStale()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      captureRef.current?.stop();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = stream;
+      try {
+        const capture = await startMicrophoneCapture(ctx, stream, handleCapturedChunk);
+        if (isStale()) {
+          capture.stop();
+          return;
+        }
+        captureRef.current = capture;
+        setAnalysers(prev => ({ ...prev, input: capture.analyser }));
+      } catch (error) {
+        if (!isStale()) setAppError(classifyError(error, 'audio', true));
+      }
+    })();
+  }, [micConstraints, handleCapturedChunk]);
+
+  const updateBatch = useCallback((next: TranslationJob[]) => {
+    batchRef.current = next;
+    setBatch(next);
+  }, []);
+
+  const requestTranslation = useCallback((targetLanguage: string, prompt: string) => {
+    const session = sessionRef.current;
+    if (!session?.isOpen) return false;
+    translationContextRef.current = { ...translationContextRef.current, targetLanguage };
+    // The voice is fixed per connection, so switch first; the request goes out once the new one opens.
+    session.switchVoice(voiceForLanguage(voiceProfileRef.current, targetLanguage));
+    session.send({ text: prompt });
+    dispatchWorkflow({ type: 'language-requested' });
+    markUserInput();
+    return true;
+  }, [markUserInput]);
+
+  // Called whenever a turn completes: settles the language in flight and sends the next queued one, if any.
+  // A turn that ends without a translation, such as one cut short, fails that language rather than stalling the batch.
+  const continueBatch = useCallback((translated: boolean) => {
+    if (!isBatchRunning(batchRef.current)) return;
+    const { batch: next, next: job } = advanceBatch(batchRef.current, translated ? 'done' : 'failed');
+    updateBatch(next);
+    if (job) requestTranslation(job.name, batchPrompt(job, false));
+  }, [requestTranslation, updateBatch]);
 
   const cleanup = useCallback(() => {
-    if (sessionRef.current) {
-      try { sessionRef.current.close(); } catch (e) {}
-      sessionRef.current = null;
+    fileJobTokenRef.current++;
+    fileStreamRef.current?.stop();
+    fileStreamRef.current = null;
+    setAudioFileJob(null);
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
+    micConstraintsRef.current = null;
     activeSourcesRef.current.forEach(source => {
       try { source.stop(); } catch (e) {}
     });
@@ -65,156 +339,565 @@ const App: React.FC = () => {
       audioContextOutRef.current.close().catch(() => {});
       audioContextOutRef.current = null;
     }
+    outputAnalyserRef.current = null;
+    setAnalysers({ input: null, output: null });
 
-    setStatus(SessionStatus.IDLE);
+    dispatchWorkflow({ type: 'stop' });
     setIsModelSpeaking(false);
-    setHasRecorded(false);
-  }, []);
+    setIsTransmitting(false);
+    inputGateRef.current.setPushToTalk(false);
+    preRollRef.current = null;
+    updateBatch([]);
+    practiceRef.current = null;
+    practicePlaybackRef.current = false;
+    setPractice(null);
+    setSwitchingVoice(null);
+
+    const metrics = metricsRef.current;
+    metricsRef.current = null;
+    if (metrics) {
+      const finished = { ...metrics, endedAt: Date.now() };
+      setSessionMetrics(finished);
+      // A session that never connected has nothing worth averaging.
+      if (finished.connectMs !== null) {
+        const history = appendSessionMetrics(metricsHistoryRef.current, finished);
+        metricsHistoryRef.current = history;
+        setMetricsHistory(history);
+        saveSessionMetrics(finished.profileId, history);
+      }
+    }
+  }, [updateBatch]);
 
   const handleStopSession = useCallback(() => {
     cleanup();
   }, [cleanup]);
 
+  const setPushToTalk = useCallback((pressed: boolean) => {
+    inputGateRef.current.setPushToTalk(pressed);
+  }, []);
+
+  // Space acts as the push-to-talk key, except while typing in a field.
+  useEffect(() => {
+    if (settings.inputGate.mode !== 'ptt' || status !== SessionStatus.CONNECTED) return;
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) setPushToTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setPushToTalk(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      setPushToTalk(false);
+    };
+  }, [settings.inputGate.mode, status, setPushToTalk]);
+
+  const recordEntry = useCallback((entry: HistoryEntry, audio?: { pcm: Uint8Array; sampleRate: number }) => {
+    setTranscriptions(prev => [...prev, entry]);
+    const saved = audio && audio.pcm.byteLength > 0
+      ? saveEntryWithAudio(entry, audio.pcm, audio.sampleRate)
+      : saveEntry(entry).then(() => entry);
+    saved
+      .then(stored => {
+        setTranscriptions(prev => prev.map(e => e.id === stored.id ? stored : e));
+        setHistoryRevision(r => r + 1);
+      })
+      .catch(err => console.error("History Error:", err));
+  }, []);
+
+  const patchEntry = useCallback((id: string, patch: Partial<HistoryEntry>) => {
+    setTranscriptions(prev => prev.map(e => e.id === id ? { ...e, ...patch } : e));
+    updateEntry(id, patch)
+      .then(() => setHistoryRevision(r => r + 1))
+      .catch(err => console.error("History Error:", err));
+  }, []);
+
+  // Records a new phrase, spoken or typed, and makes it the one being translated.
+  // `reported` is the translation the model reported for it, when that's already in.
+  const recordSourcePhrase = useCallback((text: string, audio?: { pcm: Uint8Array; sampleRate: number }, reported?: TranslationResult | null) => {
+    const pair = interpreterPairRef.current;
+    const id = createEntryId();
+    const spoken = pair ? pairLanguageOf(text, pair, reported) : undefined;
+    const speaker = speakerOf(spoken, pair);
+    recordEntry(
+      {
+        profileId: userProfile?.email ?? '', sessionId: sessionIdRef.current, id, role: 'user', text, timestamp: Date.now(),
+        sourceLanguage: spoken?.name ?? null, targetLanguage: null, sourceEntryId: null, speaker,
+      },
+      audio,
+    );
+    if (pair) {
+      // Interpreter mode translates straight into the other language of the pair.
+      const other = spoken ? pair.find(l => l !== spoken) : undefined;
+      translationContextRef.current = { sourceEntryId: id, sourceText: text, targetLanguage: other?.name ?? null };
+    } else {
+      translationContextRef.current = { sourceEntryId: id, sourceText: text, targetLanguage: null };
+      // A new phrase makes the rest of any batch for the old one moot.
+      if (isBatchRunning(batchRef.current)) updateBatch(cancelQueued(batchRef.current));
+    }
+    dispatchWorkflow({ type: 'phrase-recorded' });
+  }, [recordEntry, updateBatch, userProfile]);
+
+  const handleSendText = (text: string) => {
+    const session = sessionRef.current;
+    if (!session?.isOpen) return;
+    recordSourcePhrase(text);
+    session.send({ text: typedPhrasePrompt(interpreterPairRef.current ? 'interpreter' : 'translate', text) });
+    markUserInput();
+  };
+
+  const handleCancelAudioFile = () => {
+    fileJobTokenRef.current++;
+    fileStreamRef.current?.stop();
+  };
+
+  const handleAudioFile = async (file: File) => {
+    if (!sessionRef.current?.isOpen || audioFileJob) return;
+    const token = ++fileJobTokenRef.current;
+    setAppError(null);
+    setAudioFileJob({ fileName: file.name, status: 'decoding', progress: 0 });
+    let samples: Float32Array;
+    try {
+      samples = await decodeAudioFile(file);
+    } catch (err: any) {
+      if (token === fileJobTokenRef.current) setAppError(classifyError(err, 'file', true));
+      setAudioFileJob(null);
+      return;
+    }
+    if (token !== fileJobTokenRef.current || !sessionRef.current?.isOpen) {
+      setAudioFileJob(null);
+      return;
+    }
+
+    setAudioFileJob({ fileName: file.name, status: 'streaming', progress: 0 });
+    const fileStream = streamAudioSamples(
+      samples,
+      chunk => {
+        keepInputChunk(chunk.pcm);
+        sendAudioInput({ media: chunk.blob });
+        markUserInput();
+      },
+      progress => setAudioFileJob(job => job && { ...job, progress }),
+    );
+    fileStreamRef.current = fileStream;
+    await fileStream.finished;
+    if (fileStreamRef.current === fileStream) fileStreamRef.current = null;
+    // Whether it ran out or was cancelled, the recording is over; let the model respond.
+    if (audioContextOutRef.current) sendAudioInput({ audioStreamEnd: true });
+    setAudioFileJob(null);
+  };
+
   const handleStartSession = async () => {
-    setErrorMessage(null);
+    setAppError(null);
+    sessionIdRef.current = createEntryId();
+    translationContextRef.current = { sourceEntryId: null, sourceText: '', targetLanguage: null };
+    turnAudioRef.current = { input: [], inputBytes: 0, output: [] };
+    inputGateRef.current = new InputGate(settings.inputGate);
+    preRollRef.current = null;
+    metricsRef.current = createSessionMetrics(userProfile?.email ?? '', sessionIdRef.current, settings.voices.defaultVoice, liveTransport.name);
+    turnTimingRef.current = { firstInputAt: null, lastInputAt: null, firstOutputAt: null };
+    setSessionMetrics(metricsRef.current);
+    const resolveCodes = (codes: string[]) => codes.map(getLanguage).filter((l): l is Language => !!l);
+    const [speakerA, speakerB] = resolveCodes(settings.interpreterPair);
+    interpreterPairRef.current = settings.sessionMode === 'interpreter' && speakerA && speakerB && speakerA !== speakerB ? [speakerA, speakerB] : null;
+    sessionGlossaryRef.current = glossaries.find(g => g.id === settings.activeGlossaryId) ?? null;
+    const quickTiles = resolveCodes(settings.quickTiles);
+    const systemInstruction = buildSystemInstruction({
+      mode: interpreterPairRef.current ? 'interpreter' : 'translate',
+      primaryLanguages: quickTiles.length > 0 ? quickTiles : resolveCodes(DEFAULT_QUICK_TILES),
+      interpreterPair: interpreterPairRef.current ?? [speakerA, speakerB],
+      glossary: sessionGlossaryRef.current,
+    });
+    // Which step was running if setup throws, for classifying the failure.
+    let stage: ErrorStage = 'audio';
     try {
-      setStatus(SessionStatus.CONNECTING);
+      dispatchWorkflow({ type: 'start', mode: interpreterPairRef.current ? 'interpreter' : 'translate' });
       
-      // Initialize Audio Contexts
-      const audioContextIn = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const audioContextOut = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      // Without a microphone the session still runs: phrases are typed and translations are spoken.
+      let stream: MediaStream | null = null;
+      if (settings.micEnabled) {
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints });
+          micConstraintsRef.current = JSON.stringify(micConstraints);
+          // Device names are only visible once mic permission has been granted.
+          refreshAudioDevices();
+        } catch (error) {
+          console.warn("Microphone unavailable:", error);
+          setAppError(classifyError(error, 'microphone', true));
+        }
+      }
+      streamRef.current = stream;
+
+      // Initialize Audio Contexts. Input runs at the hardware rate; the capture worklet resamples to 16 kHz.
+      const audioContextIn = stream ? new (window.AudioContext || (window as any).webkitAudioContext)() : null;
+      const audioContextOut = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
       
       // Ensure contexts are resumed (crucial for mic input)
-      await audioContextIn.resume();
+      await audioContextIn?.resume();
       await audioContextOut.resume();
       
       audioContextInRef.current = audioContextIn;
       audioContextOutRef.current = audioContextOut;
+      await setOutputDevice(audioContextOut, outputDeviceId).catch(err => console.warn("Could not switch output device:", err));
+      const outputAnalyser = audioContextOut.createAnalyser();
+      outputAnalyser.fftSize = 2048;
+      outputAnalyser.connect(audioContextOut.destination);
+      outputAnalyserRef.current = outputAnalyser;
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
+      // Mic audio is captured once per session and outlives individual connections.
+      const startCapture = async () => {
+        if (!stream || !audioContextIn || captureRef.current) return;
+        captureRef.current = await startMicrophoneCapture(audioContextIn, stream, handleCapturedChunk);
+        setAnalysers({ input: captureRef.current.analyser, output: outputAnalyser });
+      };
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTION,
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: selectedVoice } },
-          },
-          outputAudioTranscription: {},
-          inputAudioTranscription: {},
+      // Interpreter mode speaks both directions on one connection, so it keeps the default voice throughout.
+      const session = createTranslationSession({
+        transport: liveTransport,
+        systemInstruction,
+        voice: settings.voices.defaultVoice,
+        maxPendingAudioBytes: MAX_PENDING_AUDIO_BYTES,
+        contextReminder: heardSoFar => reconnectInstruction(translationContextRef.current.sourceText, heardSoFar),
+        dispatch: dispatchWorkflow,
+        onOpen: (kind, connectMs) => {
+          if (kind === 'initial') updateMetrics(m => ({ ...m, connectMs }), true);
+          if (kind === 'reconnect') updateMetrics(m => ({ ...m, reconnects: m.reconnects + 1 }), true);
+          setAnalysers(prev => ({ ...prev, output: outputAnalyser }));
+          startCapture().catch(error => setAppError(classifyError(error, 'audio', true)));
         },
-        callbacks: {
-          onopen: () => {
-            setStatus(SessionStatus.CONNECTED);
-            
-            const source = audioContextIn.createMediaStreamSource(stream);
-            const scriptProcessor = audioContextIn.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(session => {
-                // Only send if session is still active
-                if (session) {
-                  session.sendRealtimeInput({ media: pcmBlob });
-                }
-              });
+        onSwitchingVoice: setSwitchingVoice,
+        onModelAudio: async data => {
+          setIsModelSpeaking(true);
+          if (turnTimingRef.current.firstOutputAt === null) turnTimingRef.current.firstOutputAt = performance.now();
+          const ctx = audioContextOutRef.current;
+          if (ctx) {
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+            const pcm = decode(data);
+            turnAudioRef.current.output.push(pcm);
+            const buffer = await decodeAudioData(pcm, ctx, OUTPUT_SAMPLE_RATE, 1);
+            const source = ctx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(outputAnalyserRef.current ?? ctx.destination);
+            source.onended = () => {
+              activeSourcesRef.current.delete(source);
+              if (activeSourcesRef.current.size === 0) setIsModelSpeaking(false);
             };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioContextIn.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            if (message.serverContent?.inputTranscription) {
-              transcriptionBufferRef.current.input += message.serverContent.inputTranscription.text;
+            source.start(nextStartTimeRef.current);
+            nextStartTimeRef.current += buffer.duration;
+            updateMetrics(m => ({ ...m, audioReceivedSeconds: m.audioReceivedSeconds + buffer.duration }));
+            activeSourcesRef.current.add(source);
+          }
+        },
+        onInterrupted: () => {
+          activeSourcesRef.current.forEach(s => { try { s.stop(); } catch(e){} });
+          activeSourcesRef.current.clear();
+          nextStartTimeRef.current = 0;
+          setIsModelSpeaking(false);
+          // The user talked over the answer; whatever they say next starts a new turn.
+          turnTimingRef.current = { firstInputAt: null, lastInputAt: null, firstOutputAt: null };
+          updateMetrics(m => ({ ...m, interruptions: m.interruptions + 1 }), true);
+        },
+        onTurnComplete: ({ input, output, translation }) => {
+          const turnAudio = turnAudioRef.current;
+          const base = { profileId: userProfile?.email ?? '', sessionId: sessionIdRef.current };
+          const pair = interpreterPairRef.current;
+          const practiceTurn = practiceRef.current;
+          if (practiceTurn) {
+            // Attempts aren't phrases to translate, and the model's replies aren't translations.
+            if (practiceTurn.ending) {
+              practiceRef.current = null;
+              dispatchWorkflow({ type: 'practice-ended' });
+            } else if (input.trim()) {
+              const result = scorePronunciation(practiceTurn.phrase.translation, input);
+              setPractice(current => current && { ...current, result });
             }
-            if (message.serverContent?.outputTranscription) {
-              transcriptionBufferRef.current.output += message.serverContent.outputTranscription.text;
+          } else {
+            if (input.trim()) {
+              recordSourcePhrase(input, { pcm: concatBytes(turnAudio.input), sampleRate: CAPTURE_SAMPLE_RATE }, translation);
             }
-            
-            if (message.serverContent?.turnComplete) {
-              const input = transcriptionBufferRef.current.input;
-              const output = transcriptionBufferRef.current.output;
-              if (input.trim()) {
-                setTranscriptions(prev => [...prev, { role: 'user', text: input, timestamp: Date.now() }]);
-                setHasRecorded(true); // Triggers the language menu
+            let translated = false;
+            if (output.trim() || translation) {
+              const { sourceEntryId, sourceText } = translationContextRef.current;
+              // Prefer what the model reported through the tool over what was asked for or guessed.
+              const targetLanguage = translation?.targetLanguage
+                ?? translationContextRef.current.targetLanguage
+                ?? (pair ? detectLanguageByScript(output, pair)?.name ?? null : null);
+              const text = output.trim() ? output : translation!.translation;
+              const glossary = sessionGlossaryRef.current;
+              const glossaryViolations = glossary && targetLanguage
+                ? checkGlossary(glossary, translation?.sourceText ?? sourceText, translation?.translation ?? text, targetLanguage)
+                : [];
+              recordEntry(
+                {
+                  ...base, id: createEntryId(), role: 'model', text, timestamp: Date.now(),
+                  sourceLanguage: translation?.sourceLanguage ?? null, targetLanguage, sourceEntryId: targetLanguage ? sourceEntryId : null,
+                  ...(translation ? { translation } : {}),
+                  ...(glossaryViolations.length > 0 ? { glossaryViolations } : {}),
+                },
+                { pcm: concatBytes(turnAudio.output), sampleRate: OUTPUT_SAMPLE_RATE },
+              );
+              translated = !!targetLanguage;
+              if (translation && sourceEntryId) {
+                // A typed phrase was recorded before the model said what language it was in.
+                const spoken = pair ? pairLanguageOf(sourceText, pair, translation) : undefined;
+                patchEntry(sourceEntryId, { sourceLanguage: translation.sourceLanguage, ...(spoken ? { speaker: speakerOf(spoken, pair) } : {}) });
               }
-              if (output.trim()) {
-                setTranscriptions(prev => [...prev, { role: 'model', text: output, timestamp: Date.now() }]);
-              }
-              transcriptionBufferRef.current = { input: '', output: '' };
+              // The follow-up question after a translation isn't part of it.
+              translationContextRef.current = { sourceEntryId, sourceText, targetLanguage: null };
             }
-
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData) {
-              setIsModelSpeaking(true);
-              const ctx = audioContextOutRef.current;
-              if (ctx) {
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                const buffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
-                const source = ctx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(ctx.destination);
-                source.onended = () => {
-                  activeSourcesRef.current.delete(source);
-                  if (activeSourcesRef.current.size === 0) setIsModelSpeaking(false);
-                };
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += buffer.duration;
-                activeSourcesRef.current.add(source);
-              }
-            }
-
-            if (message.serverContent?.interrupted) {
-              activeSourcesRef.current.forEach(s => { try { s.stop(); } catch(e){} });
-              activeSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsModelSpeaking(false);
-            }
-          },
-          onerror: (err: any) => {
-            console.error("Session Error:", err);
-            setStatus(SessionStatus.ERROR);
-            setErrorMessage("Voice interface link failed.");
-          },
-          onclose: (e: any) => {
-            console.log("Session Closed:", e);
-            cleanup();
+            dispatchWorkflow({ type: 'turn-complete', translated });
+            // After the turn settles, so the next batch language moves the workflow back to translating.
+            if (!pair) continueBatch(translated);
           }
-        }
+          const timing = turnTimingRef.current;
+          const turnStartedAt = timing.firstInputAt ?? timing.firstOutputAt;
+          if (turnStartedAt !== null) {
+            const now = performance.now();
+            const latencyMs = timing.lastInputAt !== null && timing.firstOutputAt !== null
+              ? Math.round(timing.firstOutputAt - timing.lastInputAt)
+              : null;
+            updateMetrics(m => ({ ...m, turns: [...m.turns, { completedAt: Date.now(), latencyMs, durationMs: Math.round(now - turnStartedAt) }] }), true);
+          }
+          turnTimingRef.current = { firstInputAt: null, lastInputAt: null, firstOutputAt: null };
+          turnAudioRef.current = { input: [], inputBytes: 0, output: [] };
+        },
+        onInputSent: countSentAudio,
+        onFailed: error => {
+          cleanup();
+          setAppError(error);
+        },
       });
-      sessionRef.current = await sessionPromise;
+      sessionRef.current = session;
+
+      stage = 'session';
+      await session.connect();
     } catch (error: any) {
       console.error("Init Error:", error);
-      setStatus(SessionStatus.ERROR);
-      setErrorMessage("Microphone access denied or connection failed.");
+      cleanup();
+      dispatchWorkflow({ type: 'failed' });
+      setAppError(classifyError(error, stage));
     }
   };
 
-  const handleLanguageSelect = (lang: string) => {
-    if (sessionRef.current) {
-      sessionRef.current.sendRealtimeInput({
-        text: `Translate that to ${lang}`
-      });
+  // Runs a save to this browser's storage; if it fails, e.g. on a full quota, the change still applies until reload and the user is told.
+  const persist = useCallback((save: () => void) => {
+    try {
+      save();
+    } catch (error) {
+      console.warn("Storage Error:", error);
+      setAppError(classifyError(error, 'storage', true));
     }
+  }, []);
+
+  const updateSettings = useCallback((patch: Partial<UserSettings>) => {
+    const next = { ...settingsRef.current, ...patch };
+    settingsRef.current = next;
+    setSettings(next);
+    if (userProfile) persist(() => saveUserSettings(userProfile.email, next));
+  }, [userProfile, persist]);
+
+  const handleGlossariesChange = (next: Glossary[]) => {
+    setGlossaries(next);
+    if (userProfile) persist(() => saveGlossaries(userProfile.email, next));
   };
 
-  const selectAccount = (account: typeof GOOGLE_ACCOUNTS[0]) => {
-    setUserProfile(account);
-    setAuthStep('DASHBOARD');
+  const handlePhrasebooksChange = (next: Phrasebook[]) => {
+    setPhrasebooks(next);
+    if (userProfile) persist(() => savePhrasebooks(userProfile.email, next));
   };
 
-  const handleLogout = () => {
+  const handleSavePhrase = (draft: PhraseDraft, phrasebookId: string | null) => {
+    const phrase = createPhrase(draft);
+    if (phrasebookId === null) {
+      handlePhrasebooksChange([...phrasebooks, addPhrase(createPhrasebook(`Phrasebook ${phrasebooks.length + 1}`), phrase)]);
+      return;
+    }
+    handlePhrasebooksChange(phrasebooks.map(p => (p.id === phrasebookId ? addPhrase(p, phrase) : p)));
+  };
+
+  const handleStartPractice = (phrase: Phrase) => {
+    const session = sessionRef.current;
+    if (!session?.isOpen) return;
+    practiceRef.current = { phrase, ending: false };
+    dispatchWorkflow({ type: 'practice-started' });
+    setPractice({ phrase, result: null });
+    setIsPhrasebookOpen(false);
+    session.send({ text: practicePrompt(phrase) });
+  };
+
+  const handleEndPractice = () => {
+    const current = practiceRef.current;
+    setPractice(null);
+    practicePlaybackRef.current = false;
+    if (!current) return;
+    if (sessionRef.current?.isOpen) {
+      // Keep ignoring turns until the model acknowledges, so its reply isn't taken for a translation.
+      practiceRef.current = { ...current, ending: true };
+      sessionRef.current.send({ text: PRACTICE_END_PROMPT });
+    } else {
+      practiceRef.current = null;
+      dispatchWorkflow({ type: 'practice-ended' });
+    }
+  };
+
+  const handlePracticePlayback = useCallback((isPlaying: boolean) => {
+    practicePlaybackRef.current = isPlaying;
+  }, []);
+
+  const handleDefaultVoiceChange = (voice: string) => {
+    updateSettings({ voices: { ...settings.voices, defaultVoice: voice } });
+    // Takes effect straight away; per-language voices still apply to their translations.
+    sessionRef.current?.switchVoice(voice);
+  };
+
+  // Plays a voice sample, recording it first over its own short live session if it isn't cached yet.
+  const handleAudition = async (voice: string, language?: Language) => {
+    const pcm = await auditionVoice(auditionTransport, voice, language);
+    const previous = auditionAudioRef.current;
+    if (previous) {
+      previous.pause();
+      URL.revokeObjectURL(previous.src);
+    }
+    const url = URL.createObjectURL(new Blob([encodeWav(pcm, OUTPUT_SAMPLE_RATE)], { type: 'audio/wav' }));
+    const audio = new Audio(url);
+    audio.onended = () => URL.revokeObjectURL(url);
+    auditionAudioRef.current = audio;
+    try {
+      await audio.play();
+    } catch (error) {
+      // Autoplay blocked or the sample undecodable: nothing will end it, so release it here.
+      URL.revokeObjectURL(url);
+      if (auditionAudioRef.current === audio) auditionAudioRef.current = null;
+      setAppError(classifyError(error, 'audio', true));
+      throw error;
+    }
+  };
+
+  const handleLanguageSelect = (language: Language) => {
+    if (isMultiSelect) {
+      setBatchSelection(prev => prev.includes(language.code) ? prev.filter(c => c !== language.code) : [...prev, language.code]);
+      return;
+    }
+    if (requestTranslation(language.name, `Translate that to ${language.name}`)) {
+      updateSettings({ recents: withRecent(settings.recents, language.code) });
+    }
+  };
+
+  const handleStartBatch = () => {
+    const languages = batchSelection.map(getLanguage).filter((l): l is Language => !!l);
+    const currentVoice = sessionRef.current?.voice ?? settings.voices.defaultVoice;
+    const grouped = groupByVoice(languages, l => voiceForLanguage(settings.voices, l.code), currentVoice);
+    const { batch: started, next: first } = advanceBatch(createBatch(grouped));
+    if (!first || !requestTranslation(first.name, batchPrompt(first, true))) return;
+    updateBatch(started);
+    setBatchSelection([]);
+    updateSettings({ recents: languages.reduceRight((recents, l) => withRecent(recents, l.code), settings.recents) });
+  };
+
+  const beginAuthSession = useCallback((session: AuthSession) => {
+    saveAuthSession(session);
+    setAuthSession(session);
+    settingsRef.current = loadUserSettings(session.user.email);
+    setSettings(settingsRef.current);
+    setGlossaries(loadGlossaries(session.user.email));
+    metricsHistoryRef.current = loadSessionMetrics(session.user.email);
+    setMetricsHistory(metricsHistoryRef.current);
+    setPhrasebooks(loadPhrasebooks(session.user.email));
+    setAuthError(null);
+  }, []);
+
+  const endAuthSession = useCallback((error: string | null = null) => {
     cleanup();
-    setUserProfile(null);
+    saveAuthSession(null);
+    setAuthSession(null);
+    setTranscriptions([]);
+    setIsHistoryOpen(false);
+    setIsGlossaryOpen(false);
+    setIsAudioSettingsOpen(false);
+    setIsPhrasebookOpen(false);
+    setIsVoiceProfilesOpen(false);
+    setSessionMetrics(null);
+    setAuthError(error);
     setAuthStep('LOGIN');
+  }, [cleanup]);
+
+  // Restores the persisted session, or completes a sign-in redirect. Runs once, even under StrictMode,
+  // because a redirect's authorization code can only be exchanged once.
+  const authRestoredRef = useRef(false);
+  useEffect(() => {
+    if (authRestoredRef.current) return;
+    authRestoredRef.current = true;
+    (async () => {
+      const url = new URL(window.location.href);
+      try {
+        let session = await AUTH_PROVIDER.completeSignIn(url);
+        if (session) {
+          window.history.replaceState(null, '', url.pathname);
+        } else {
+          session = loadAuthSession();
+          if (session?.provider !== AUTH_PROVIDER.id) session = null;
+          if (session && msUntilRefresh(session) <= 0) session = await AUTH_PROVIDER.refresh(session);
+        }
+        if (session) beginAuthSession(session);
+        else setAuthStep('LOGIN');
+      } catch (err: any) {
+        window.history.replaceState(null, '', url.pathname);
+        endAuthSession(err.message);
+      }
+    })();
+  }, [beginAuthSession, endAuthSession]);
+
+  // Refreshes the access token shortly before it expires.
+  useEffect(() => {
+    if (!authSession) return;
+    const timer = setTimeout(() => {
+      AUTH_PROVIDER.refresh(authSession)
+        .then(beginAuthSession)
+        .catch(() => endAuthSession('Your session has expired. Please sign in again.'));
+    }, Math.max(0, msUntilRefresh(authSession)));
+    return () => clearTimeout(timer);
+  }, [authSession, beginAuthSession, endAuthSession]);
+
+  const handleSignIn = () => {
+    setAuthError(null);
+    if (AUTH_PROVIDER.accounts) {
+      setAuthStep('SELECT_ACCOUNT');
+      return;
+    }
+    AUTH_PROVIDER.signIn().catch(err => setAuthError(err.message));
+  };
+
+  const selectAccount = (accountId: string) => {
+    AUTH_PROVIDER.signIn(accountId)
+      .then(session => session && beginAuthSession(session))
+      .catch(err => {
+        setAuthError(err.message);
+        setAuthStep('LOGIN');
+      });
+  };
+
+  const handleLogout = () => {
+    if (authSession) {
+      AUTH_PROVIDER.revoke(authSession).catch(err => console.error("Revoke Error:", err));
+    }
+    endAuthSession();
   };
 
+  // In push-to-talk mode the main button is held to talk instead of toggling the session.
+  const isHoldToTalk = status === SessionStatus.CONNECTED && !!analysers.input && settings.inputGate.mode === 'ptt';
+  // A session is live while connected and while it is being reconnected.
+  const isLive = isLivePhase(workflow.phase);
+
   // --- Auth Screens ---
-  if (authStep === 'LOGIN') {
+  if (!authSession && authStep !== 'SELECT_ACCOUNT') {
     return (
       <div className="min-h-screen bg-[#020617] flex flex-col items-center justify-center p-6 text-center overflow-hidden">
         <div className="absolute inset-0 pointer-events-none">
@@ -232,23 +915,27 @@ const App: React.FC = () => {
             <p className="text-slate-400 text-sm font-medium">Neural Voice Translation Hub</p>
           </div>
           <button 
-            onClick={() => setAuthStep('SELECT_ACCOUNT')}
-            className="w-full py-4 px-6 bg-white hover:bg-slate-100 text-slate-900 font-bold rounded-2xl flex items-center justify-center gap-4 transition-all shadow-xl active:scale-[0.98]"
+            onClick={handleSignIn}
+            disabled={authStep === 'RESTORING'}
+            className="w-full py-4 px-6 bg-white hover:bg-slate-100 text-slate-900 font-bold rounded-2xl flex items-center justify-center gap-4 transition-all shadow-xl active:scale-[0.98] disabled:opacity-50"
           >
-            <svg className="w-5 h-5" viewBox="0 0 24 24">
+            {AUTH_PROVIDER.id === 'oauth' && <svg className="w-5 h-5" viewBox="0 0 24 24">
               <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
               <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
               <path fill="#FBBC05" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l3.66-2.84z"/>
               <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.66l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-            </svg>
-            Sign in with Google
+            </svg>}
+            {authStep === 'RESTORING' ? 'Signing in…' : AUTH_PROVIDER.label}
           </button>
+          {authError && (
+            <p className="text-red-400 text-[10px] font-black uppercase tracking-widest">{authError}</p>
+          )}
         </div>
       </div>
     );
   }
 
-  if (authStep === 'SELECT_ACCOUNT') {
+  if (!authSession) {
     return (
       <div className="min-h-screen bg-[#020617] flex items-center justify-center p-6">
         <div className="w-full max-w-md bg-white rounded-[2.5rem] overflow-hidden shadow-[0_20px_60px_rgba(0,0,0,0.4)] animate-in slide-in-from-bottom-8 duration-500">
@@ -262,10 +949,10 @@ const App: React.FC = () => {
             <h2 className="text-2xl font-black text-slate-900 tracking-tight">Choose Account</h2>
           </div>
           <div className="border-t border-slate-50">
-            {GOOGLE_ACCOUNTS.map((acc) => (
+            {AUTH_PROVIDER.accounts?.map((acc) => (
               <button 
-                key={acc.email}
-                onClick={() => selectAccount(acc)}
+                key={acc.id}
+                onClick={() => selectAccount(acc.id)}
                 className="w-full flex items-center gap-4 p-6 text-left hover:bg-slate-50 transition-colors border-b border-slate-50 last:border-0 group"
               >
                 <img src={acc.avatar} alt={acc.name} className="w-12 h-12 rounded-full border-2 border-slate-100 group-hover:border-indigo-400 transition-colors" />
@@ -301,6 +988,30 @@ const App: React.FC = () => {
           <h1 className="text-sm font-black tracking-widest uppercase hidden sm:block">Polyglot Pro</h1>
         </div>
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setIsGlossaryOpen(true)}
+            className="px-4 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            Glossary
+          </button>
+          <button
+            onClick={() => setIsPhrasebookOpen(true)}
+            className="px-4 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            Phrasebook
+          </button>
+          <button
+            onClick={() => setIsAudioSettingsOpen(true)}
+            className="px-4 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            Audio
+          </button>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="px-4 py-2 rounded-xl bg-white/5 border border-white/5 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-white/10 transition-all"
+          >
+            History
+          </button>
           <div className="flex items-center gap-3 px-3 py-1.5 bg-white/5 rounded-2xl border border-white/5">
             <img src={userProfile?.avatar} className="w-6 h-6 rounded-full border border-white/10" alt="User" />
             <div className="text-right">
@@ -316,23 +1027,46 @@ const App: React.FC = () => {
           
           {/* Main Control Center */}
           <div className="flex flex-col items-center gap-8 w-full animate-in fade-in slide-in-from-bottom-8 duration-700">
+            <SessionModeSelector
+              mode={settings.sessionMode}
+              interpreterPair={settings.interpreterPair}
+              disabled={isLive || status === SessionStatus.CONNECTING}
+              onChange={updateSettings}
+            />
+            {settings.micEnabled && (
+              <InputGateControls
+                settings={settings.inputGate}
+                isActive={status === SessionStatus.CONNECTED}
+                isTransmitting={isTransmitting}
+                onChange={inputGate => updateSettings({ inputGate })}
+              />
+            )}
             <div className="relative">
               {status === SessionStatus.CONNECTED && (
                 <div className="absolute inset-0 -m-6 bg-indigo-500/20 rounded-full animate-ping opacity-20 pointer-events-none" />
               )}
               
               <button
-                onClick={status === SessionStatus.CONNECTED ? handleStopSession : handleStartSession}
+                onClick={isHoldToTalk ? undefined : isLive ? handleStopSession : handleStartSession}
+                onPointerDown={isHoldToTalk ? () => setPushToTalk(true) : undefined}
+                onPointerUp={isHoldToTalk ? () => setPushToTalk(false) : undefined}
+                onPointerLeave={isHoldToTalk ? () => setPushToTalk(false) : undefined}
                 disabled={status === SessionStatus.CONNECTING}
                 className={`w-40 h-40 rounded-full flex items-center justify-center transition-all duration-500 shadow-[0_20px_60px_rgba(0,0,0,0.5)] relative z-10 border-4 ${
-                  status === SessionStatus.CONNECTED 
+                  isHoldToTalk
+                    ? isTransmitting
+                      ? 'bg-emerald-500 border-emerald-400 scale-110'
+                      : 'bg-indigo-600 border-indigo-500 hover:bg-indigo-500 scale-105'
+                    : status === SessionStatus.RECONNECTING
+                    ? 'bg-amber-500 border-amber-400 hover:bg-amber-600 scale-105'
+                    : status === SessionStatus.CONNECTED
                     ? 'bg-red-500 border-red-400 hover:bg-red-600 scale-110 active:scale-105' 
                     : 'bg-indigo-600 border-indigo-500 hover:bg-indigo-500 scale-100 hover:scale-105 active:scale-95 shadow-indigo-500/30'
                 } disabled:opacity-50 group`}
               >
-                {status === SessionStatus.CONNECTING ? (
+                {status === SessionStatus.CONNECTING || status === SessionStatus.RECONNECTING ? (
                   <div className="w-12 h-12 border-4 border-white/30 border-t-white rounded-full animate-spin" />
-                ) : status === SessionStatus.CONNECTED ? (
+                ) : status === SessionStatus.CONNECTED && !isHoldToTalk ? (
                   <svg className="w-14 h-14 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
                 ) : (
                   <svg className="w-14 h-14 text-white group-hover:scale-110 transition-transform" fill="currentColor" viewBox="0 0 24 24">
@@ -342,86 +1076,233 @@ const App: React.FC = () => {
                 )}
               </button>
             </div>
+            {isHoldToTalk && (
+              <button
+                onClick={handleStopSession}
+                className="-mt-2 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors"
+              >
+                End session
+              </button>
+            )}
 
             <div className="w-full max-w-lg text-center space-y-4">
-              <VoiceVisualizer isActive={status === SessionStatus.CONNECTED} isModelSpeaking={isModelSpeaking} />
-              <div className="h-4">
-                {errorMessage ? (
-                  <p className="text-red-400 text-[10px] font-black uppercase tracking-widest animate-pulse">{errorMessage}</p>
+              <VoiceVisualizer isActive={isLive} input={analysers.input} output={analysers.output} />
+              <div className="min-h-4">
+                {appError ? (
+                  <ErrorNotice
+                    error={appError}
+                    getReport={() => diagnosticsReport(appError, {
+                      'Session status': status,
+                      'Workflow phase': workflow.phase,
+                      'Transport': liveTransport.name,
+                      'Session id': sessionIdRef.current || null,
+                      'Session mode': settings.sessionMode,
+                      'Microphone enabled': settings.micEnabled,
+                      'Input gate': settings.inputGate.mode,
+                      'Input sample rate': captureRef.current?.hardwareSampleRate ?? null,
+                      'Input device': streamRef.current?.getAudioTracks()[0]?.label || null,
+                      'Output device': audioDevices.outputs.find(d => d.deviceId === outputDeviceId)?.label ?? 'System default',
+                      'Output sample rate': OUTPUT_SAMPLE_RATE,
+                    })}
+                    onRetry={() => {
+                      if (isLive) handleStopSession();
+                      handleStartSession();
+                    }}
+                    onChooseDevice={() => setIsAudioSettingsOpen(true)}
+                    onDismiss={() => setAppError(null)}
+                  />
                 ) : (
                   <p className="text-slate-500 text-[10px] font-black uppercase tracking-[0.6em]">
-                    {status === SessionStatus.CONNECTED 
-                      ? (isModelSpeaking ? "Neural Processing..." : "Ready to Translate") 
+                    {switchingVoice
+                      ? `Switching to ${switchingVoice}...`
+                      : workflow.phase === 'listening'
+                      ? (isModelSpeaking ? "Neural Processing..." : !analysers.input ? "Type a phrase to translate" : isHoldToTalk && !isTransmitting ? "Hold to talk" : "Ready to Translate")
+                      : workflow.phase === 'awaiting-language'
+                      ? (isModelSpeaking ? "Neural Processing..." : "Choose a target language")
+                      : workflow.phase === 'translating'
+                      ? "Translating..."
+                      : workflow.phase === 'follow-up'
+                      ? (isModelSpeaking ? "Neural Processing..." : "Another language, or a new phrase")
+                      : workflow.phase === 'practicing'
+                      ? (isModelSpeaking ? "Neural Processing..." : "Practicing")
+                      : workflow.phase === 'connecting'
+                      ? "Connecting..."
+                      : workflow.phase === 'reconnecting'
+                      ? "Connection lost — reconnecting..."
                       : "Tap to establish connection"}
                   </p>
                 )}
               </div>
             </div>
+
+            {practice && (
+              <PracticeCard
+                phrase={practice.phrase}
+                result={practice.result}
+                onPlaybackChange={handlePracticePlayback}
+                onRetry={() => setPractice(current => current && { ...current, result: null })}
+                onClose={handleEndPractice}
+              />
+            )}
+
+            <TextComposer
+              isConnected={status === SessionStatus.CONNECTED && workflow.phase !== 'practicing'}
+              micEnabled={settings.micEnabled}
+              micLocked={isLive || status === SessionStatus.CONNECTING}
+              onMicEnabledChange={micEnabled => updateSettings({ micEnabled })}
+              onSend={handleSendText}
+            />
+            <AudioFileInput
+              isConnected={status === SessionStatus.CONNECTED}
+              job={audioFileJob}
+              onSelect={handleAudioFile}
+              onCancel={handleCancelAudioFile}
+            />
           </div>
 
-          {/* Languages Menu - Appears when transcription is captured */}
-          <div className={`w-full max-w-3xl transition-all duration-700 transform ${hasRecorded && status === SessionStatus.CONNECTED ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-12 scale-95 pointer-events-none'}`}>
+          {/* Languages Menu - Shown from a new phrase until the user is done translating it */}
+          <div className={`w-full max-w-3xl transition-all duration-700 transform ${showsLanguageMenu(workflow) ? 'opacity-100 translate-y-0 scale-100' : 'opacity-0 translate-y-12 scale-95 pointer-events-none'}`}>
             <div className="bg-slate-900/40 backdrop-blur-3xl border border-white/10 p-10 rounded-[3.5rem] shadow-2xl relative overflow-hidden">
               <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-indigo-500/50 to-transparent" />
-              <h2 className="text-center text-[12px] font-black uppercase tracking-[0.4em] text-indigo-400 mb-10">Select Target Language</h2>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
-                {INDIAN_LANGUAGES.map(lang => (
-                  <button
-                    key={lang}
-                    onClick={() => handleLanguageSelect(lang)}
-                    className="group flex flex-col items-center gap-4 p-5 rounded-[2rem] bg-white/5 border border-white/5 hover:bg-indigo-600 hover:border-indigo-400 transition-all active:scale-95 hover:-translate-y-1"
-                  >
-                    <div className="w-12 h-12 rounded-2xl bg-white/10 flex items-center justify-center text-xl font-bold group-hover:bg-white/20 transition-colors shadow-lg">
-                      {lang[0]}
-                    </div>
-                    <span className="text-[10px] font-black uppercase tracking-widest">{lang}</span>
-                  </button>
-                ))}
+              <h2 className="text-center text-[12px] font-black uppercase tracking-[0.4em] text-indigo-400 mb-4">
+                {workflow.phase === 'follow-up' ? 'Translate Again' : 'Select Target Language'}
+              </h2>
+              <div className="flex justify-center gap-3 mb-8">
+                <button
+                  onClick={() => { setIsMultiSelect(m => !m); setBatchSelection([]); }}
+                  disabled={isBatchRunning(batch)}
+                  className={`px-4 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all disabled:opacity-40 ${isMultiSelect ? 'bg-indigo-600 border-indigo-400 text-white' : 'border-white/10 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {isMultiSelect ? 'Multi-select on' : 'Multi-select'}
+                </button>
+                <button
+                  onClick={() => dispatchWorkflow({ type: 'dismiss' })}
+                  disabled={workflow.phase === 'translating'}
+                  className="px-4 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border border-white/10 text-slate-500 hover:text-slate-300 transition-all disabled:opacity-40"
+                >
+                  {workflow.phase === 'follow-up' ? 'Done' : 'Not now'}
+                </button>
               </div>
+              <LanguagePicker
+                settings={settings}
+                onSelect={handleLanguageSelect}
+                onSettingsChange={updateSettings}
+                selectedCodes={isMultiSelect ? batchSelection : undefined}
+              />
+              {isMultiSelect && batchSelection.length > 0 && !isBatchRunning(batch) && (
+                <button
+                  onClick={handleStartBatch}
+                  className="mt-8 w-full py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-[10px] font-black uppercase tracking-[0.3em] transition-all active:scale-[0.98]"
+                >
+                  Translate into {batchSelection.length} {batchSelection.length === 1 ? 'language' : 'languages'}
+                </button>
+              )}
+              {batch.length > 0 && (
+                <BatchProgress
+                  batch={batch}
+                  onCancel={() => updateBatch(cancelQueued(batchRef.current))}
+                  onDismiss={() => updateBatch([])}
+                />
+              )}
             </div>
           </div>
 
           {/* Recent Transcriptions - Floating bubbles */}
           <div className="w-full max-w-2xl flex flex-col gap-3 px-4 max-h-[160px] overflow-y-auto scrollbar-hide opacity-60">
-            {transcriptions.slice(-3).reverse().map((t, i) => (
-              <div key={i} className={`flex ${t.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2`}>
-                <div className={`px-5 py-2.5 rounded-2xl text-[11px] font-medium tracking-wide ${t.role === 'user' ? 'bg-indigo-500/10 text-indigo-200 border border-indigo-500/20' : 'bg-slate-800 text-slate-400 border border-white/5'}`}>
-                  {t.text}
+            {transcriptions.slice(-3).reverse().map(t => {
+              const phrase = phraseFromEntry(t, transcriptions.find(e => e.id === t.sourceEntryId));
+              return (
+                <div key={t.id} className={`flex ${t.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2`}>
+                  <div className={`px-5 py-2.5 rounded-2xl text-[11px] font-medium tracking-wide ${t.role === 'user' ? 'bg-indigo-500/10 text-indigo-200 border border-indigo-500/20' : 'bg-slate-800 text-slate-400 border border-white/5'}`}>
+                    <p className="text-[8px] font-black uppercase tracking-widest opacity-60 mb-1">{entryLabel(t)}</p>
+                    <p dir={t.role === 'model' ? textDirection(t.targetLanguage) : 'auto'}>{t.text}</p>
+                    {t.translation?.romanization && <p className="italic opacity-60 mt-0.5">{t.translation.romanization}</p>}
+                    {t.glossaryViolations && <GlossaryViolations violations={t.glossaryViolations} />}
+                    <EntryAudioControls entry={t} />
+                    {phrase && <PhraseSaveButton phrase={phrase} phrasebooks={phrasebooks} onSave={id => handleSavePhrase(phrase, id)} />}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </main>
 
+      {userProfile && (
+        <HistoryPanel
+          profileId={userProfile.email}
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          revision={historyRevision}
+        />
+      )}
+
+      <GlossaryManager
+        isOpen={isGlossaryOpen}
+        onClose={() => setIsGlossaryOpen(false)}
+        glossaries={glossaries}
+        activeGlossaryId={settings.activeGlossaryId}
+        onChange={handleGlossariesChange}
+        onActivate={id => updateSettings({ activeGlossaryId: id })}
+      />
+
+      <PhrasebookPanel
+        isOpen={isPhrasebookOpen}
+        onClose={() => setIsPhrasebookOpen(false)}
+        phrasebooks={phrasebooks}
+        onChange={handlePhrasebooksChange}
+        canPractice={status === SessionStatus.CONNECTED && !!analysers.input}
+        onPractice={handleStartPractice}
+      />
+
+      <AudioSettingsPanel
+        isOpen={isAudioSettingsOpen}
+        onClose={() => setIsAudioSettingsOpen(false)}
+        settings={settings.audio}
+        devices={audioDevices}
+        canSelectOutput={supportsOutputSelection()}
+        onChange={audio => updateSettings({ audio })}
+      />
+
+      <VoiceProfilesPanel
+        isOpen={isVoiceProfilesOpen}
+        onClose={() => setIsVoiceProfilesOpen(false)}
+        profile={settings.voices}
+        suggestedCodes={settings.quickTiles}
+        onChange={voices => updateSettings({ voices })}
+        onAudition={handleAudition}
+      />
+
       {/* Side Voice Settings */}
       <div className="fixed bottom-10 left-10 hidden xl:flex flex-col gap-3 group">
-         <span className="text-[9px] font-black text-slate-700 uppercase tracking-[0.3em] ml-2">Synthesis Aura</span>
-         <div className="flex flex-col gap-1.5 p-3 bg-slate-900/60 backdrop-blur-xl rounded-[2rem] border border-white/10 shadow-2xl">
-           {VOICES.map(v => (
-             <button 
-               key={v}
-               onClick={() => setSelectedVoice(v)}
-               className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${selectedVoice === v ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-slate-500 hover:bg-white/5 hover:text-slate-300'}`}
-             >
-               {v}
-             </button>
-           ))}
-         </div>
+         <VoicePicker
+           profile={settings.voices}
+           onDefaultChange={handleDefaultVoiceChange}
+           onAudition={voice => handleAudition(voice)}
+           onOpenProfiles={() => setIsVoiceProfilesOpen(true)}
+         />
+         <button
+           onClick={() => setKeepInputAudio(v => !v)}
+           className={`mx-2 text-left text-[9px] font-black uppercase tracking-[0.2em] transition-colors ${keepInputAudio ? 'text-indigo-400' : 'text-slate-700 hover:text-slate-500'}`}
+         >
+           {keepInputAudio ? '● Keeping my audio' : '○ Keep my audio'}
+         </button>
       </div>
 
+      <SessionStatsPanel current={sessionMetrics} history={metricsHistory} />
+
       <footer className="px-10 py-5 border-t border-white/5 flex flex-col sm:flex-row items-center justify-between text-[10px] text-slate-700 font-black uppercase tracking-[0.4em] bg-slate-950/20 gap-4">
         <div className="flex items-center gap-10">
           <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${status === SessionStatus.CONNECTED ? 'bg-green-500 shadow-[0_0_8px_#22c55e]' : 'bg-slate-800'}`} />
+            <div className={`w-2 h-2 rounded-full ${status === SessionStatus.CONNECTED ? 'bg-green-500 shadow-[0_0_8px_#22c55e]' : status === SessionStatus.RECONNECTING ? 'bg-amber-400 animate-pulse' : 'bg-slate-800'}`} />
             <span>Connection: {status}</span>
           </div>
           <span className="opacity-20 hidden sm:inline">|</span>
           <span>Sample Rate: 16k Input / 24k Output</span>
         </div>
         <div className="flex items-center gap-6 text-slate-800">
-           <span>Neural Core v2.5</span>
-           <span>Polyglot Protocol Active</span>
+           <span>Voice: {switchingVoice ?? sessionRef.current?.voice ?? settings.voices.defaultVoice}</span>
+           <span>Transport: {liveTransport.name}</span>
         </div>
       </footer>
     </div>
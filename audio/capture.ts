@@ -0,0 +1,69 @@
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import type { CaptureChunkMessage, CaptureProcessorOptions } from './captureWorklet';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const CAPTURE_CHUNK_FRAMES = 4096;
+
+export interface CapturedChunk {
+  /** Ready to pass to `sendRealtimeInput({ media })`. */
+  blob: { data: string; mimeType: string };
+  /** The same audio as raw 16-bit PCM. */
+  pcm: Uint8Array;
+  /** RMS level in dBFS. */
+  levelDb: number;
+}
+
+export interface MicrophoneCapture {
+  /** The rate the input context actually runs at, before resampling. */
+  readonly hardwareSampleRate: number;
+  /** Taps the raw microphone signal, ahead of any gating, for metering. */
+  readonly analyser: AnalyserNode;
+  stop(): void;
+}
+
+/**
+ * Streams `stream` through the capture worklet and hands each 16 kHz chunk
+ * to `onChunk`. The worklet module is loaded once per context.
+ */
+export async function startMicrophoneCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (chunk: CapturedChunk) => void,
+): Promise<MicrophoneCapture> {
+  await ctx.audioWorklet.addModule(captureWorkletUrl);
+
+  const processorOptions: CaptureProcessorOptions = {
+    targetSampleRate: CAPTURE_SAMPLE_RATE,
+    chunkFrames: CAPTURE_CHUNK_FRAMES,
+  };
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions,
+  });
+  node.port.onmessage = (e: MessageEvent<CaptureChunkMessage>) => {
+    onChunk({
+      blob: { data: e.data.data, mimeType: e.data.mimeType },
+      pcm: new Uint8Array(e.data.pcm),
+      levelDb: e.data.levelDb,
+    });
+  };
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(node);
+  source.connect(analyser);
+
+  return {
+    hardwareSampleRate: ctx.sampleRate,
+    analyser,
+    stop() {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      analyser.disconnect();
+    },
+  };
+}
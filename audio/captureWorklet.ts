@@ -0,0 +1,76 @@
+import { encode, floatTo16BitPCM } from '../utils';
+import { StreamingResampler } from './resampler';
+import { rmsDb } from './levels';
+
+// AudioWorkletGlobalScope is not part of TypeScript's DOM lib.
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+declare function registerProcessor(name: string, ctor: typeof AudioWorkletProcessor): void;
+
+export interface CaptureProcessorOptions {
+  targetSampleRate: number;
+  chunkFrames: number;
+}
+
+/** Posted to the main thread once per filled chunk. */
+export interface CaptureChunkMessage {
+  data: string;
+  mimeType: string;
+  frames: number;
+  /** The same chunk as raw little-endian Int16 PCM. */
+  pcm: ArrayBuffer;
+  /** RMS level of the chunk in dBFS. */
+  levelDb: number;
+}
+
+/**
+ * Runs on the audio rendering thread: resamples the hardware-rate input to
+ * the target rate, converts to clipped Int16 and base64-encodes fixed-size
+ * chunks, so the main thread only forwards ready-to-send blobs.
+ */
+class CaptureProcessor extends AudioWorkletProcessor {
+  private readonly resampler: StreamingResampler;
+  private readonly chunk: Float32Array;
+  private readonly targetSampleRate: number;
+  private filled = 0;
+
+  constructor(options: { processorOptions: CaptureProcessorOptions }) {
+    super();
+    const { targetSampleRate, chunkFrames } = options.processorOptions;
+    this.targetSampleRate = targetSampleRate;
+    this.resampler = new StreamingResampler(sampleRate, targetSampleRate);
+    this.chunk = new Float32Array(chunkFrames);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    const resampled = this.resampler.process(channel);
+    let offset = 0;
+    while (offset < resampled.length) {
+      const count = Math.min(this.chunk.length - this.filled, resampled.length - offset);
+      this.chunk.set(resampled.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.chunk.length) {
+        const pcm = floatTo16BitPCM(this.chunk).buffer;
+        const message: CaptureChunkMessage = {
+          data: encode(new Uint8Array(pcm)),
+          mimeType: `audio/pcm;rate=${this.targetSampleRate}`,
+          frames: this.chunk.length,
+          pcm,
+          levelDb: rmsDb(this.chunk),
+        };
+        this.port.postMessage(message, [pcm]);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', CaptureProcessor as unknown as typeof AudioWorkletProcessor);
@@ -0,0 +1,60 @@
+import { AudioDeviceSettings } from '../types';
+
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioDeviceList {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+}
+
+// `setSinkId` on AudioContext is newer than TypeScript's DOM lib.
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/**
+ * Lists microphones and speakers. Browsers hide labels until mic permission
+ * has been granted, so unlabeled devices get numbered placeholders.
+ */
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const pick = (kind: MediaDeviceKind, fallback: string) => devices
+    .filter(d => d.kind === kind && d.deviceId && d.deviceId !== 'default')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `${fallback} ${i + 1}` }));
+  return { inputs: pick('audioinput', 'Microphone'), outputs: pick('audiooutput', 'Speaker') };
+}
+
+/**
+ * `getUserMedia` audio constraints for the chosen mic and processing options.
+ * The device is only preferred, so a mic that has gone away falls back to
+ * another one instead of failing.
+ */
+export function microphoneConstraints(settings: AudioDeviceSettings): MediaTrackConstraints {
+  return {
+    ...(settings.inputDeviceId ? { deviceId: { ideal: settings.inputDeviceId } } : {}),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/** Whether this browser can route an AudioContext to a chosen output device. */
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/** Routes `ctx` to `deviceId`, or the system default when null. */
+export async function setOutputDevice(ctx: AudioContext, deviceId: string | null): Promise<void> {
+  const sinkable = ctx as SinkableAudioContext;
+  if (!sinkable.setSinkId) return;
+  await sinkable.setSinkId(deviceId ?? '');
+}
+
+/**
+ * The saved device if it's still connected, otherwise null for the system
+ * default. An empty list means devices couldn't be enumerated yet, so the
+ * saved choice is kept rather than discarded.
+ */
+export const resolveDevice = (deviceId: string | null, devices: AudioDevice[]): string | null =>
+  deviceId && (devices.length === 0 || devices.some(d => d.deviceId === deviceId)) ? deviceId : null;
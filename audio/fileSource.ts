@@ -0,0 +1,76 @@
+import { createBlob, floatTo16BitPCM } from '../utils';
+import { CAPTURE_SAMPLE_RATE, CapturedChunk } from './capture';
+import { rmsDb } from './levels';
+import { StreamingResampler } from './resampler';
+
+// Files are decoded at a fixed rate, then brought down to 16 kHz with the
+// same resampler the microphone path uses.
+const DECODE_SAMPLE_RATE = 48000;
+// Matches the capture worklet's chunk size, so the model sees file audio
+// arrive exactly as it would from the microphone.
+const CHUNK_FRAMES = 4096;
+
+export interface AudioFileStream {
+  /** Resolves true once every chunk was sent, false if stopped early. */
+  readonly finished: Promise<boolean>;
+  stop(): void;
+}
+
+/** Decodes a WAV, MP3, OGG (or any browser-supported) file to 16 kHz mono. */
+export async function decodeAudioFile(file: File): Promise<Float32Array> {
+  const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`Could not decode "${file.name}". Is it an audio file?`);
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return new StreamingResampler(buffer.sampleRate, CAPTURE_SAMPLE_RATE).process(mono);
+}
+
+/**
+ * Feeds 16 kHz samples to `onChunk` at real-time pace, reporting the fraction
+ * sent so far to `onProgress`.
+ */
+export function streamAudioSamples(
+  samples: Float32Array,
+  onChunk: (chunk: CapturedChunk) => void,
+  onProgress: (fraction: number) => void,
+): AudioFileStream {
+  const chunkMs = (CHUNK_FRAMES / CAPTURE_SAMPLE_RATE) * 1000;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let offset = 0;
+  let settle: (completed: boolean) => void;
+  const finished = new Promise<boolean>(resolve => { settle = resolve; });
+
+  const sendNext = () => {
+    if (offset >= samples.length) {
+      settle(true);
+      return;
+    }
+    const slice = samples.subarray(offset, offset + CHUNK_FRAMES);
+    offset += slice.length;
+    onChunk({
+      blob: createBlob(slice, CAPTURE_SAMPLE_RATE),
+      pcm: new Uint8Array(floatTo16BitPCM(slice).buffer),
+      levelDb: rmsDb(slice),
+    });
+    onProgress(offset / samples.length);
+    timer = setTimeout(sendNext, chunkMs);
+  };
+  sendNext();
+
+  return {
+    finished,
+    stop() {
+      clearTimeout(timer);
+      settle(false);
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InputGateSettings } from '../types';
+import { InputGate } from './inputGate';
+
+const VAD: InputGateSettings = { mode: 'vad', vadThresholdDb: -45, vadHangoverMs: 600 };
+
+describe('InputGate', () => {
+  it('opens on the chunk that reaches the threshold', () => {
+    const gate = new InputGate(VAD);
+    assert.deepEqual(gate.update(-60, 0), { open: false, opened: false, closed: false });
+    assert.deepEqual(gate.update(-45.1, 100), { open: false, opened: false, closed: false });
+    assert.deepEqual(gate.update(-45, 200), { open: true, opened: true, closed: false });
+    assert.deepEqual(gate.update(-30, 300), { open: true, opened: false, closed: false });
+  });
+
+  it('holds open through the hangover and closes once it has passed', () => {
+    const gate = new InputGate(VAD);
+    gate.update(-30, 1000);
+    assert.equal(gate.update(-70, 1300).open, true);
+    assert.deepEqual(gate.update(-70, 1600), { open: true, opened: false, closed: false });
+    assert.deepEqual(gate.update(-70, 1601), { open: false, opened: false, closed: true });
+    assert.deepEqual(gate.update(-70, 1700), { open: false, opened: false, closed: false });
+  });
+
+  it('restarts the hangover whenever speech resumes', () => {
+    const gate = new InputGate(VAD);
+    gate.update(-30, 0);
+    gate.update(-70, 500);
+    gate.update(-40, 550);
+    assert.equal(gate.update(-70, 1100).open, true);
+    assert.equal(gate.update(-70, 1200).closed, true);
+  });
+
+  it('follows only the push-to-talk key in ptt mode', () => {
+    const gate = new InputGate({ ...VAD, mode: 'ptt' });
+    assert.equal(gate.update(-10, 0).open, false);
+    gate.setPushToTalk(true);
+    assert.deepEqual(gate.update(-90, 100), { open: true, opened: true, closed: false });
+    gate.setPushToTalk(false);
+    assert.deepEqual(gate.update(-10, 200), { open: false, opened: false, closed: true });
+  });
+
+  it('streams everything in always mode, and keeps its state when reconfigured', () => {
+    const gate = new InputGate({ ...VAD, mode: 'always' });
+    assert.deepEqual(gate.update(-90, 0), { open: true, opened: true, closed: false });
+    gate.configure(VAD);
+    assert.deepEqual(gate.update(-90, 100), { open: false, opened: false, closed: true });
+  });
+});
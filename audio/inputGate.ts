@@ -0,0 +1,52 @@
+import { InputGateSettings } from '../types';
+
+export interface GateUpdate {
+  /** Whether this chunk should be streamed. */
+  open: boolean;
+  /** The gate went from closed to open on this chunk. */
+  opened: boolean;
+  /** The gate went from open to closed on this chunk. */
+  closed: boolean;
+}
+
+/**
+ * Decides, chunk by chunk, whether microphone audio is streamed. In `vad`
+ * mode the gate opens when a chunk's level crosses the threshold and stays
+ * open for the hangover period after speech drops below it, so pauses
+ * between words don't chop a sentence up. In `ptt` mode only the
+ * push-to-talk state matters.
+ */
+export class InputGate {
+  private settings: InputGateSettings;
+  private pushToTalk = false;
+  private lastVoiceAt = -Infinity;
+  private isOpen = false;
+
+  constructor(settings: InputGateSettings) {
+    this.settings = settings;
+  }
+
+  configure(settings: InputGateSettings): void {
+    this.settings = settings;
+  }
+
+  setPushToTalk(pressed: boolean): void {
+    this.pushToTalk = pressed;
+  }
+
+  update(levelDb: number, now: number): GateUpdate {
+    const { mode, vadThresholdDb, vadHangoverMs } = this.settings;
+    let open: boolean;
+    if (mode === 'always') {
+      open = true;
+    } else if (mode === 'ptt') {
+      open = this.pushToTalk;
+    } else {
+      if (levelDb >= vadThresholdDb) this.lastVoiceAt = now;
+      open = now - this.lastVoiceAt <= vadHangoverMs;
+    }
+    const update = { open, opened: open && !this.isOpen, closed: !open && this.isOpen };
+    this.isOpen = open;
+    return update;
+  }
+}
@@ -0,0 +1,24 @@
+/** Level of a silent block; kept finite so it survives JSON and arithmetic. */
+export const SILENCE_FLOOR_DB = -100;
+
+/** RMS level of `samples` in dBFS, floored at `SILENCE_FLOOR_DB`. */
+export function rmsDb(samples: Float32Array): number {
+  if (samples.length === 0) return SILENCE_FLOOR_DB;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? Math.max(SILENCE_FLOOR_DB, 20 * Math.log10(rms)) : SILENCE_FLOOR_DB;
+}
+
+/** Largest absolute sample value, 0..1 for in-range audio. */
+export function peakLevel(samples: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.abs(samples[i]);
+    if (v > peak) peak = v;
+  }
+  return peak;
+}
+
+/** Roughly where quiet speech sits; chunks below this are treated as room noise. */
+export const SPEECH_LEVEL_DB = -50;
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StreamingResampler } from './resampler';
+
+const ramp = (length: number, start = 0) => Float32Array.from({ length }, (_, i) => start + i);
+
+const assertClose = (actual: Float32Array, expected: ArrayLike<number>, tolerance = 1e-4) => {
+  assert.equal(actual.length, expected.length);
+  actual.forEach((value, i) => assert.ok(Math.abs(value - expected[i]) <= tolerance, `sample ${i}: ${value} vs ${expected[i]}`));
+};
+
+describe('StreamingResampler', () => {
+  it('copies blocks through when the rates match', () => {
+    const input = ramp(8);
+    const output = new StreamingResampler(16000, 16000).process(input);
+    assert.notEqual(output, input);
+    assert.deepEqual(output, input);
+  });
+
+  it('emits one sample per step of the rate ratio', () => {
+    assert.equal(new StreamingResampler(48000, 16000).process(new Float32Array(48)).length, 16);
+    assert.equal(new StreamingResampler(44100, 16000).process(new Float32Array(441)).length, 160);
+    assert.equal(new StreamingResampler(16000, 48000).process(new Float32Array(4)).length, 9);
+  });
+
+  it('interpolates linearly when upsampling', () => {
+    const output = new StreamingResampler(16000, 48000).process(ramp(4));
+    assertClose(output, Array.from({ length: 9 }, (_, i) => i / 3));
+  });
+
+  it('carries the last sample and read position across block boundaries', () => {
+    const resampler = new StreamingResampler(16000, 32000);
+    assertClose(resampler.process(ramp(3)), [0, 0.5, 1, 1.5]);
+    // The next block starts between the previous block's last sample and its own first.
+    assertClose(resampler.process(ramp(2, 3)), [2, 2.5, 3, 3.5]);
+  });
+
+  it('downsamples split blocks exactly as one continuous block', () => {
+    const signal = Float32Array.from({ length: 480 }, (_, i) => Math.sin(i / 7));
+    const whole = new StreamingResampler(48000, 16000).process(signal);
+    const split = new StreamingResampler(48000, 16000);
+    const parts = [signal.subarray(0, 20), signal.subarray(20, 21), new Float32Array(0), signal.subarray(21)].map(block => split.process(block));
+    assertClose(Float32Array.from(parts.flatMap(part => Array.from(part))), whole, 1e-6);
+  });
+
+  it('attenuates content above the output Nyquist frequency when downsampling', () => {
+    // Unfiltered, every third sample of this tone would alias into the output at full scale.
+    const alternating = Float32Array.from({ length: 4800 }, (_, i) => (i % 2 ? -1 : 1));
+    const output = new StreamingResampler(48000, 16000).process(alternating);
+    assert.ok(output.subarray(100).every(sample => Math.abs(sample) < 0.25));
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Streaming mono resampler. Blocks may be any length; the fractional read
+ * position and filter state carry over between calls, so consecutive blocks
+ * resample as one continuous signal.
+ */
+export class StreamingResampler {
+  private readonly step: number;
+  private readonly alpha: number;
+  private position = 0;
+  private previous = 0;
+  private lowpass1 = 0;
+  private lowpass2 = 0;
+
+  constructor(readonly inputRate: number, readonly outputRate: number) {
+    this.step = inputRate / outputRate;
+    // Two cascaded one-pole low-passes just under the output Nyquist
+    // frequency keep downsampling from folding high frequencies back in.
+    this.alpha = inputRate > outputRate
+      ? 1 - Math.exp((-2 * Math.PI * outputRate * 0.45) / inputRate)
+      : 1;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.inputRate === this.outputRate) return input.slice();
+
+    const n = input.length;
+    const filtered = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      this.lowpass1 += this.alpha * (input[i] - this.lowpass1);
+      this.lowpass2 += this.alpha * (this.lowpass1 - this.lowpass2);
+      filtered[i] = this.lowpass2;
+    }
+
+    // Index -1 refers to the last sample of the previous block.
+    const at = (i: number) => (i < 0 ? this.previous : filtered[i]);
+    const output: number[] = [];
+    let t = this.position;
+    while (t < n - 1) {
+      const i = Math.floor(t);
+      const frac = t - i;
+      output.push(at(i) + (at(i + 1) - at(i)) * frac);
+      t += this.step;
+    }
+
+    this.position = t - n;
+    if (n > 0) this.previous = filtered[n - 1];
+    return Float32Array.from(output);
+  }
+}
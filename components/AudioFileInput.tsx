@@ -0,0 +1,61 @@
+import React, { useRef } from 'react';
+import { AudioFileJob } from '../types';
+
+interface AudioFileInputProps {
+  isConnected: boolean;
+  job: AudioFileJob | null;
+  onSelect: (file: File) => void;
+  onCancel: () => void;
+}
+
+export const AudioFileInput: React.FC<AudioFileInputProps> = ({ isConnected, job, onSelect, onCancel }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (job) {
+    return (
+      <div className="w-full max-w-lg space-y-2">
+        <div className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest">
+          <span className="text-slate-400 truncate">
+            {job.status === 'decoding' ? 'Decoding' : 'Streaming'} {job.fileName}
+          </span>
+          <button onClick={onCancel} className="shrink-0 ml-4 text-slate-500 hover:text-red-400 transition-colors">Cancel</button>
+        </div>
+        <div
+          className="h-1.5 rounded-full bg-white/5 overflow-hidden"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(job.progress * 100)}
+        >
+          <div
+            className={`h-full bg-indigo-500 transition-all duration-300 ${job.status === 'decoding' ? 'animate-pulse w-full opacity-40' : ''}`}
+            style={job.status === 'streaming' ? { width: `${job.progress * 100}%` } : undefined}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={!isConnected}
+        className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-300 transition-colors disabled:opacity-30"
+      >
+        Translate an audio file
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="audio/*,.wav,.mp3,.ogg"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onSelect(file);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+};
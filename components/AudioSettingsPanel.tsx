@@ -0,0 +1,94 @@
+import React from 'react';
+import { AudioDeviceSettings } from '../types';
+import { AudioDeviceList } from '../audio/devices';
+
+interface AudioSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AudioDeviceSettings;
+  devices: AudioDeviceList;
+  /** False where the browser can't route playback to a chosen device. */
+  canSelectOutput: boolean;
+  onChange: (settings: AudioDeviceSettings) => void;
+}
+
+const PROCESSING: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string; hint: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Stops the translation on your speakers from being picked up again' },
+  { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Filters steady background noise like fans and traffic' },
+  { key: 'autoGainControl', label: 'Auto gain', hint: 'Evens out quiet and loud speakers' },
+];
+
+export const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ isOpen, onClose, settings, devices, canSelectOutput, onChange }) => {
+  if (!isOpen) return null;
+
+  const labelClass = 'block text-[8px] font-black uppercase tracking-widest text-slate-600 mb-2';
+  const selectClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[11px] text-slate-200 focus:outline-none focus:border-indigo-500 disabled:opacity-40';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-full bg-slate-900/95 border border-white/10 rounded-[2.5rem] flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-[12px] font-black uppercase tracking-[0.4em] text-indigo-400">Audio</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+        </header>
+
+        <section className="p-8 space-y-6 overflow-y-auto">
+          <div>
+            <label htmlFor="audio-input" className={labelClass}>Microphone</label>
+            <select
+              id="audio-input"
+              value={settings.inputDeviceId ?? ''}
+              onChange={e => onChange({ ...settings, inputDeviceId: e.target.value || null })}
+              className={selectClass}
+            >
+              <option value="">System default</option>
+              {devices.inputs.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="audio-output" className={labelClass}>Speaker</label>
+            <select
+              id="audio-output"
+              value={settings.outputDeviceId ?? ''}
+              onChange={e => onChange({ ...settings, outputDeviceId: e.target.value || null })}
+              disabled={!canSelectOutput}
+              className={selectClass}
+            >
+              <option value="">System default</option>
+              {devices.outputs.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+            </select>
+            {!canSelectOutput && (
+              <p className="mt-2 text-[9px] text-slate-500">This browser always plays through the system default output.</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <span className={labelClass}>Processing</span>
+            {PROCESSING.map(option => (
+              <label key={option.key} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings[option.key]}
+                  onChange={e => onChange({ ...settings, [option.key]: e.target.checked })}
+                  className="mt-0.5 accent-indigo-500"
+                />
+                <span>
+                  <span className="block text-[11px] font-bold text-slate-200">{option.label}</span>
+                  <span className="block text-[9px] text-slate-500">{option.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {devices.inputs.length === 0 && (
+            <p className="text-[9px] font-black uppercase tracking-widest text-amber-400">No microphones detected</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+
+interface AuditionButtonProps {
+  /** Fetches and plays the sample; rejects if it couldn't be produced. */
+  onAudition: () => Promise<void>;
+  label: string;
+}
+
+/** Plays a voice sample, showing progress while it's recorded the first time. */
+export const AuditionButton: React.FC<AuditionButtonProps> = ({ onAudition, label }) => {
+  const [state, setState] = useState<'idle' | 'loading' | 'failed'>('idle');
+
+  const handleClick = () => {
+    setState('loading');
+    onAudition()
+      .then(() => setState('idle'))
+      .catch(err => {
+        console.warn("Audition Error:", err);
+        setState('failed');
+      });
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={state === 'loading'}
+      title={state === 'failed' ? 'Sample unavailable, try again' : `Hear ${label}`}
+      aria-label={`Hear ${label}`}
+      className={`w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-[8px] transition-colors ${state === 'failed' ? 'text-red-400' : 'text-slate-500 hover:text-white hover:bg-white/10'}`}
+    >
+      {state === 'loading' ? <span className="w-3 h-3 border-2 border-white/20 border-t-white rounded-full animate-spin" /> : state === 'failed' ? '!' : '▶'}
+    </button>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { TranslationJob } from '../types';
+import { isBatchRunning } from '../services/translationBatch';
+
+interface BatchProgressProps {
+  batch: TranslationJob[];
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_STYLES: Record<TranslationJob['status'], string> = {
+  queued: 'bg-white/5 border-white/10 text-slate-500',
+  translating: 'bg-indigo-600/30 border-indigo-400 text-indigo-200 animate-pulse',
+  done: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300',
+  failed: 'bg-red-500/10 border-red-500/30 text-red-300',
+  cancelled: 'bg-white/5 border-white/5 text-slate-700 line-through',
+};
+
+const STATUS_LABELS: Record<TranslationJob['status'], string> = {
+  queued: 'Queued',
+  translating: 'Translating',
+  done: 'Done',
+  failed: 'No translation',
+  cancelled: 'Cancelled',
+};
+
+export const BatchProgress: React.FC<BatchProgressProps> = ({ batch, onCancel, onDismiss }) => {
+  const running = isBatchRunning(batch);
+  const done = batch.filter(job => job.status === 'done').length;
+
+  return (
+    <div className="mt-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[9px] font-black uppercase tracking-[0.3em] text-slate-500">
+          {done} of {batch.length} translated
+        </span>
+        {running ? (
+          <button onClick={onCancel} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors">
+            Cancel remaining
+          </button>
+        ) : (
+          <button onClick={onDismiss} className="text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-colors">
+            Dismiss
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {batch.map(job => (
+          <div key={job.code} className={`px-4 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[job.status]}`}>
+            {job.name} · {STATUS_LABELS[job.status]}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
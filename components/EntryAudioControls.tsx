@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { encodeWav } from '../utils';
+import { getEntryAudio } from '../services/historyStore';
+import { downloadFile } from '../services/sessionExport';
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+interface EntryAudioControlsProps {
+  entry: HistoryEntry;
+}
+
+/** Replay, speed and WAV download for an entry with stored audio. */
+export const EntryAudioControls: React.FC<EntryAudioControlsProps> = ({ entry }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [unavailable, setUnavailable] = useState(false);
+  // Why the stored audio couldn't be read, e.g. IndexedDB failing.
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  // Null when there's nothing to play: the audio is gone, or reading it failed and `error` says why.
+  const loadWav = async (): Promise<Uint8Array | null> => {
+    setError(null);
+    let stored: Awaited<ReturnType<typeof getEntryAudio>>;
+    try {
+      stored = await getEntryAudio(entry.id);
+    } catch (err: any) {
+      setError(`Could not load the audio: ${err?.message ?? err}`);
+      return null;
+    }
+    if (!stored) {
+      setUnavailable(true);
+      return null;
+    }
+    return encodeWav(stored.pcm, stored.sampleRate);
+  };
+
+  const handlePlay = async () => {
+    if (isPlaying) {
+      audioRef.current?.pause();
+      setIsPlaying(false);
+      return;
+    }
+    if (!audioRef.current) {
+      const wav = await loadWav();
+      if (!wav) return;
+      urlRef.current = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+      audioRef.current = new Audio(urlRef.current);
+      audioRef.current.onended = () => setIsPlaying(false);
+    }
+    audioRef.current.playbackRate = rate;
+    setIsPlaying(true);
+    // Rejects when autoplay is blocked or the audio can't be decoded.
+    await audioRef.current.play().catch(() => setIsPlaying(false));
+  };
+
+  const handleDownload = async () => {
+    const wav = await loadWav();
+    if (!wav) return;
+    const stamp = new Date(entry.timestamp).toISOString().replace(/[:.]/g, '-');
+    const label = entry.role === 'user' ? 'phrase' : (entry.targetLanguage ?? 'reply').toLowerCase();
+    downloadFile(`polyglot-${label}-${stamp}.wav`, wav, 'audio/wav');
+  };
+
+  if (!entry.audio || unavailable) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest text-slate-500">
+      <button onClick={handlePlay} className="hover:text-indigo-300 transition-colors" aria-label={isPlaying ? 'Pause' : 'Play'}>
+        {isPlaying ? (
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg>
+        ) : (
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+        )}
+      </button>
+      <select
+        value={rate}
+        onChange={e => setRate(Number(e.target.value))}
+        className="bg-transparent focus:outline-none cursor-pointer hover:text-indigo-300"
+        aria-label="Playback speed"
+      >
+        {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+      </select>
+      <span>{(entry.audio.durationMs / 1000).toFixed(1)}s</span>
+      <button onClick={handleDownload} className="hover:text-indigo-300 transition-colors">WAV</button>
+      {error && <span role="alert" className="text-red-400 normal-case tracking-normal">{error}</span>}
+    </div>
+  );
+};
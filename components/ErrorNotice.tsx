@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { AppError, RecoveryAction } from '../types';
+
+interface ErrorNoticeProps {
+  error: AppError;
+  /** Builds the diagnostics report on demand, so it reflects the moment it's copied. */
+  getReport: () => string;
+  onRetry: () => void;
+  /** Opens the device picker; without it, 'choose-device' shows help text instead. */
+  onChooseDevice?: () => void;
+  onDismiss: () => void;
+}
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  'retry': 'Try again',
+  'permissions-help': 'How to allow the mic',
+  'choose-device': 'Check your microphone',
+};
+
+const HELP_TEXT: Partial<Record<RecoveryAction, string>> = {
+  'permissions-help': 'Click the lock or camera icon in the address bar, set Microphone to Allow for this site, then try again. On macOS, also check System Settings › Privacy & Security › Microphone for your browser.',
+  'choose-device': 'Plug in or switch on a microphone, or pick a different input in your system sound settings, then try again.',
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, getReport, onRetry, onChooseDevice, onDismiss }) => {
+  const [help, setHelp] = useState<RecoveryAction | null>(null);
+  const [copied, setCopied] = useState(false);
+  const actionClass = 'text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-colors';
+
+  const handleAction = (action: RecoveryAction) => {
+    if (action === 'retry') onRetry();
+    else if (action === 'choose-device' && onChooseDevice) onChooseDevice();
+    else setHelp(current => (current === action ? null : action));
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(getReport())
+      .then(() => setCopied(true))
+      .catch(err => console.error("Clipboard Error:", err));
+  };
+
+  return (
+    <div className={`w-full rounded-2xl border px-4 py-3 space-y-2 text-left ${error.recoverable ? 'bg-amber-500/5 border-amber-500/20' : 'bg-red-500/5 border-red-500/20'}`} role="alert">
+      <p className={`text-[10px] font-black uppercase tracking-widest ${error.recoverable ? 'text-amber-300' : 'text-red-400'}`}>
+        {error.message}
+        {error.recoverable && error.stage === 'microphone' && ' Typing still works.'}
+      </p>
+      {help && HELP_TEXT[help] && <p className="text-[11px] text-slate-400 leading-relaxed">{HELP_TEXT[help]}</p>}
+      <div className="flex flex-wrap items-center gap-4">
+        {error.actions.map(action => (
+          <button key={action} onClick={() => handleAction(action)} className={actionClass}>{ACTION_LABELS[action]}</button>
+        ))}
+        <button onClick={handleCopy} className={actionClass}>{copied ? 'Copied' : 'Copy diagnostics'}</button>
+        <button onClick={onDismiss} className={`ml-auto ${actionClass} text-slate-600`}>Dismiss</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { Glossary, GlossaryTerm } from '../types';
+import { createGlossary, createTerm, glossaryFromCsv, glossaryLanguages, glossaryToCsv } from '../services/glossary';
+import { LANGUAGE_CATALOG } from '../services/languageCatalog';
+import { downloadFile } from '../services/sessionExport';
+
+interface GlossaryManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  glossaries: Glossary[];
+  activeGlossaryId: string | null;
+  onChange: (glossaries: Glossary[]) => void;
+  onActivate: (id: string | null) => void;
+}
+
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ isOpen, onClose, glossaries, activeGlossaryId, onChange, onActivate }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [extraLanguages, setExtraLanguages] = useState<string[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const selected = glossaries.find(g => g.id === selectedId)
+    ?? glossaries.find(g => g.id === activeGlossaryId)
+    ?? glossaries[0]
+    ?? null;
+  const languages = selected ? [...new Set([...glossaryLanguages(selected), ...extraLanguages])] : [];
+
+  const updateSelected = (update: (glossary: Glossary) => Glossary) => {
+    onChange(glossaries.map(g => (g.id === selected?.id ? update(g) : g)));
+  };
+
+  const updateTerm = (id: string, patch: Partial<GlossaryTerm>) => {
+    updateSelected(g => ({ ...g, terms: g.terms.map(t => (t.id === id ? { ...t, ...patch } : t)) }));
+  };
+
+  const setTranslation = (term: GlossaryTerm, language: string, value: string) => {
+    const translations = { ...term.translations };
+    if (value) translations[language] = value;
+    else delete translations[language];
+    updateTerm(term.id, { translations });
+  };
+
+  const handleCreate = () => {
+    const glossary = createGlossary(`Glossary ${glossaries.length + 1}`);
+    onChange([...glossaries, glossary]);
+    setSelectedId(glossary.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onChange(glossaries.filter(g => g.id !== selected.id));
+    if (activeGlossaryId === selected.id) onActivate(null);
+    setSelectedId(glossaries.find(g => g.id !== selected.id)?.id ?? null);
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const glossary = glossaryFromCsv(file.name.replace(/\.csv$/i, ''), await file.text());
+      onChange([...glossaries, glossary]);
+      setSelectedId(glossary.id);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-slate-200 focus:outline-none focus:border-indigo-500';
+  const actionClass = 'text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-300 transition-colors disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-full bg-slate-900/95 border border-white/10 rounded-[2.5rem] flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-[12px] font-black uppercase tracking-[0.4em] text-indigo-400">Glossaries</h2>
+          <div className="flex items-center gap-6">
+            <button onClick={handleCreate} className={actionClass}>New</button>
+            <button onClick={() => importInputRef.current?.click()} className={actionClass}>Import CSV</button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="text/csv,.csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </header>
+        {importError && (
+          <p className="px-8 pt-4 text-red-400 text-[10px] font-black uppercase tracking-widest">{importError}</p>
+        )}
+
+        <div className="flex min-h-0 flex-grow">
+          <nav className="w-56 shrink-0 border-r border-white/5 p-4 space-y-1 overflow-y-auto">
+            {glossaries.length === 0 && (
+              <p className="px-3 py-2 text-[9px] font-black uppercase tracking-widest text-slate-600">No glossaries yet</p>
+            )}
+            {glossaries.map(g => (
+              <button
+                key={g.id}
+                onClick={() => setSelectedId(g.id)}
+                className={`w-full text-left px-3 py-2 rounded-xl text-[11px] font-bold transition-colors ${g.id === selected?.id ? 'bg-white/10 text-white' : 'text-slate-400 hover:bg-white/5'}`}
+              >
+                {g.name}
+                {g.id === activeGlossaryId && <span className="ml-2 text-[8px] font-black uppercase tracking-widest text-emerald-400">Active</span>}
+              </button>
+            ))}
+          </nav>
+
+          {selected ? (
+            <section className="flex-grow min-w-0 p-6 space-y-5 overflow-y-auto">
+              <div className="flex items-center gap-4">
+                <input
+                  value={selected.name}
+                  onChange={e => updateSelected(g => ({ ...g, name: e.target.value }))}
+                  className={`${inputClass} text-[13px] font-bold`}
+                  aria-label="Glossary name"
+                />
+                <button
+                  onClick={() => onActivate(selected.id === activeGlossaryId ? null : selected.id)}
+                  className={`shrink-0 px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${selected.id === activeGlossaryId ? 'bg-emerald-500/20 border-emerald-500/40 text-emerald-300' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                >
+                  {selected.id === activeGlossaryId ? 'Active' : 'Use in sessions'}
+                </button>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-left border-separate border-spacing-y-1">
+                  <thead>
+                    <tr className="text-[8px] font-black uppercase tracking-widest text-slate-600">
+                      <th className="px-1">Term</th>
+                      <th className="px-1 text-center">Keep as is</th>
+                      {languages.map(language => <th key={language} className="px-1">{language}</th>)}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.terms.map(term => (
+                      <tr key={term.id}>
+                        <td className="px-1 min-w-[10rem]">
+                          <input value={term.source} onChange={e => updateTerm(term.id, { source: e.target.value })} className={inputClass} aria-label="Source term" />
+                        </td>
+                        <td className="px-1 text-center">
+                          <input
+                            type="checkbox"
+                            checked={term.doNotTranslate}
+                            onChange={e => updateTerm(term.id, { doNotTranslate: e.target.checked })}
+                            aria-label="Do not translate"
+                          />
+                        </td>
+                        {languages.map(language => (
+                          <td key={language} className="px-1 min-w-[9rem]">
+                            <input
+                              value={term.translations[language] ?? ''}
+                              onChange={e => setTranslation(term, language, e.target.value)}
+                              disabled={term.doNotTranslate}
+                              className={`${inputClass} disabled:opacity-30`}
+                              aria-label={`${language} translation`}
+                            />
+                          </td>
+                        ))}
+                        <td className="px-1">
+                          <button
+                            onClick={() => updateSelected(g => ({ ...g, terms: g.terms.filter(t => t.id !== term.id) }))}
+                            className="text-slate-600 hover:text-red-400 text-[9px] font-black uppercase tracking-widest"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6">
+                <button onClick={() => updateSelected(g => ({ ...g, terms: [...g.terms, createTerm()] }))} className={actionClass}>Add term</button>
+                <select
+                  value=""
+                  onChange={e => e.target.value && setExtraLanguages(prev => [...prev, e.target.value])}
+                  className="bg-transparent text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-300 focus:outline-none cursor-pointer"
+                  aria-label="Add language column"
+                >
+                  <option value="">Add language</option>
+                  {LANGUAGE_CATALOG.filter(l => !languages.includes(l.name)).map(l => <option key={l.code} value={l.name}>{l.name}</option>)}
+                </select>
+                <button
+                  onClick={() => downloadFile(`${selected.name || 'glossary'}.csv`, glossaryToCsv(selected), 'text/csv')}
+                  className={actionClass}
+                >
+                  Export CSV
+                </button>
+                <button onClick={handleDelete} className="ml-auto text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-red-400">
+                  Delete glossary
+                </button>
+              </div>
+            </section>
+          ) : (
+            <p className="flex-grow p-10 text-center text-slate-600 text-[10px] font-black uppercase tracking-[0.3em]">Create or import a glossary to get started</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
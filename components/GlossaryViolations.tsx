@@ -0,0 +1,19 @@
+import React from 'react';
+import { GlossaryViolation } from '../types';
+
+interface GlossaryViolationsProps {
+  violations: GlossaryViolation[];
+}
+
+/** Flags the glossary terms a translation didn't honor. */
+export const GlossaryViolations: React.FC<GlossaryViolationsProps> = ({ violations }) => (
+  <ul className="mt-1.5 space-y-0.5">
+    {violations.map(v => (
+      <li key={v.term} className="text-[9px] font-bold text-amber-400">
+        ⚠ {v.kind === 'translated-protected'
+          ? `“${v.term}” should not be translated`
+          : `“${v.term}” should be rendered as “${v.expected}”`}
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HistoryEntry } from '../types';
+import {
+  deleteEntry,
+  deleteSession,
+  getSessionEntries,
+  listHistoryLanguages,
+  queryHistory,
+  saveEntries,
+} from '../services/historyStore';
+import { textDirection } from '../services/languageCatalog';
+import { entryLabel } from '../services/entryLabels';
+import { EntryAudioControls } from './EntryAudioControls';
+import { GlossaryViolations } from './GlossaryViolations';
+import { downloadFile, EXPORT_FORMATS, ExportFormat, exportSession, importedEntries, parseSessionJson } from '../services/sessionExport';
+
+interface HistoryPanelProps {
+  profileId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Bumped by the parent whenever new entries are saved. */
+  revision: number;
+}
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ profileId, isOpen, onClose, revision }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [languages, setLanguages] = useState<string[]>([]);
+  const [search, setSearch] = useState('');
+  const [language, setLanguage] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+  // The last failed delete or import, shown above the list.
+  const [actionError, setActionError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    Promise.all([
+      queryHistory({
+        profileId,
+        text: search,
+        language: language || undefined,
+        from: fromDate ? startOfDay(fromDate) : undefined,
+        to: toDate ? endOfDay(toDate) : undefined,
+      }),
+      listHistoryLanguages(profileId),
+    ]).then(([found, langs]) => {
+      if (cancelled) return;
+      setEntries(found);
+      setLanguages(langs);
+    }).catch(err => console.error('History Error:', err));
+    return () => { cancelled = true; };
+  }, [isOpen, profileId, search, language, fromDate, toDate, revision, reloadKey]);
+
+  // Newest session first, entries within a session in spoken order.
+  const sessions = useMemo(() => {
+    const grouped = new Map<string, HistoryEntry[]>();
+    entries.forEach(entry => {
+      const list = grouped.get(entry.sessionId) ?? [];
+      list.push(entry);
+      grouped.set(entry.sessionId, list);
+    });
+    return [...grouped.entries()].sort((a, b) => b[1][0].timestamp - a[1][0].timestamp);
+  }, [entries]);
+
+  const sourceText = useMemo(() => new Map(entries.map(e => [e.id, e.text])), [entries]);
+
+  const handleDeleteEntry = async (id: string) => {
+    setActionError(null);
+    try {
+      await deleteEntry(id);
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      setActionError(`Could not delete the entry: ${err?.message ?? err}`);
+    }
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    setActionError(null);
+    try {
+      await deleteSession(sessionId);
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      setActionError(`Could not delete the session: ${err?.message ?? err}`);
+    }
+  };
+
+  const handleExport = async (sessionId: string, format: ExportFormat) => {
+    setActionError(null);
+    const spec = EXPORT_FORMATS.find(f => f.format === format)!;
+    try {
+      // Export the whole session, not just the entries matching the current filters.
+      const sessionEntries = await getSessionEntries(sessionId);
+      const date = new Date(sessionEntries[0]?.timestamp ?? Date.now()).toISOString().slice(0, 10);
+      downloadFile(`polyglot-${date}-${sessionId.slice(0, 8)}.${spec.extension}`, exportSession(format, sessionId, sessionEntries), spec.mimeType);
+    } catch (err: any) {
+      setActionError(`Could not export the session: ${err?.message ?? err}`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setActionError(null);
+    try {
+      await saveEntries(importedEntries(parseSessionJson(await file.text()), profileId));
+      setReloadKey(k => k + 1);
+    } catch (err: any) {
+      setActionError(err.message);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[11px] text-slate-200 focus:outline-none focus:border-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-slate-950/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="w-full max-w-xl h-full bg-slate-900/95 border-l border-white/10 flex flex-col animate-in slide-in-from-right-8 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-[12px] font-black uppercase tracking-[0.4em] text-indigo-400">Translation History</h2>
+          <div className="flex items-center gap-6">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-slate-500 hover:text-indigo-300 text-[10px] font-black uppercase tracking-widest"
+            >
+              Import JSON
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </header>
+        {actionError && (
+          <p className="px-8 pt-4 text-red-400 text-[10px] font-black uppercase tracking-widest">{actionError}</p>
+        )}
+
+        <div className="px-8 py-5 grid grid-cols-2 gap-3 border-b border-white/5">
+          <input
+            type="search"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search phrases and translations"
+            className={`${inputClass} col-span-2`}
+          />
+          <select value={language} onChange={e => setLanguage(e.target.value)} className={`${inputClass} col-span-2`}>
+            <option value="">All languages</option>
+            {languages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+          </select>
+          <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} aria-label="From date" />
+          <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClass} aria-label="To date" />
+        </div>
+
+        <div className="flex-grow overflow-y-auto px-8 py-6 space-y-8">
+          {sessions.length === 0 && (
+            <p className="text-center text-slate-600 text-[10px] font-black uppercase tracking-[0.3em] pt-10">No matching entries</p>
+          )}
+          {sessions.map(([sessionId, sessionEntries]) => (
+            <section key={sessionId} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-[9px] font-black uppercase tracking-[0.3em] text-slate-500">
+                  {new Date(sessionEntries[0].timestamp).toLocaleString()}
+                </span>
+                <div className="flex items-center gap-4">
+                  <select
+                    value=""
+                    onChange={e => e.target.value && handleExport(sessionId, e.target.value as ExportFormat)}
+                    className="bg-transparent text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-indigo-300 focus:outline-none cursor-pointer"
+                    aria-label="Export session"
+                  >
+                    <option value="">Export</option>
+                    {EXPORT_FORMATS.map(f => <option key={f.format} value={f.format}>{f.label}</option>)}
+                  </select>
+                  <button
+                    onClick={() => handleDeleteSession(sessionId)}
+                    className="text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-red-400 transition-colors"
+                  >
+                    Delete session
+                  </button>
+                </div>
+              </div>
+              {sessionEntries.map(entry => (
+                <div
+                  key={entry.id}
+                  className={`group px-4 py-3 rounded-2xl border text-[11px] ${entry.role === 'user' ? 'bg-indigo-500/10 text-indigo-200 border-indigo-500/20' : 'bg-slate-800 text-slate-300 border-white/5'}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <p dir={entry.role === 'model' ? textDirection(entry.targetLanguage) : 'auto'} className="leading-relaxed">{entry.text}</p>
+                    <button
+                      onClick={() => handleDeleteEntry(entry.id)}
+                      className="opacity-0 group-hover:opacity-100 text-slate-500 hover:text-red-400 transition-all shrink-0"
+                      aria-label="Delete entry"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                  {entry.translation?.romanization && (
+                    <p className="mt-1 italic text-slate-500">{entry.translation.romanization}</p>
+                  )}
+                  {entry.glossaryViolations && <GlossaryViolations violations={entry.glossaryViolations} />}
+                  <div className="mt-2">
+                    <EntryAudioControls entry={entry} />
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-3 text-[8px] font-black uppercase tracking-widest text-slate-500">
+                    <span>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                    <span>{entryLabel(entry)}</span>
+                    {(entry.translation?.sourceText ?? (entry.sourceEntryId && sourceText.get(entry.sourceEntryId))) && (
+                      <span className="normal-case tracking-normal font-medium">“{entry.translation?.sourceText ?? sourceText.get(entry.sourceEntryId!)}”</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+};
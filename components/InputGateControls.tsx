@@ -0,0 +1,77 @@
+import React from 'react';
+import { InputGateMode, InputGateSettings } from '../types';
+
+interface InputGateControlsProps {
+  settings: InputGateSettings;
+  /** Whether a session is live, so the transmit indicator means something. */
+  isActive: boolean;
+  isTransmitting: boolean;
+  onChange: (settings: InputGateSettings) => void;
+}
+
+const MODES: { mode: InputGateMode; label: string }[] = [
+  { mode: 'always', label: 'Always on' },
+  { mode: 'vad', label: 'Voice activated' },
+  { mode: 'ptt', label: 'Push to talk' },
+];
+
+export const InputGateControls: React.FC<InputGateControlsProps> = ({ settings, isActive, isTransmitting, onChange }) => {
+  const labelClass = 'text-[8px] font-black uppercase tracking-widest text-slate-600';
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex items-center gap-3">
+        <div className="flex p-1 bg-white/5 border border-white/10 rounded-2xl">
+          {MODES.map(m => (
+            <button
+              key={m.mode}
+              onClick={() => onChange({ ...settings, mode: m.mode })}
+              className={`px-4 py-1.5 rounded-xl text-[8px] font-black uppercase tracking-widest transition-all ${settings.mode === m.mode ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        {isActive && (
+          <span className={`flex items-center gap-2 ${labelClass}`} aria-live="polite">
+            <span className={`w-2 h-2 rounded-full ${isTransmitting ? 'bg-emerald-400 shadow-[0_0_8px_#34d399]' : 'bg-slate-700'}`} />
+            {isTransmitting ? 'Transmitting' : 'Muted'}
+          </span>
+        )}
+      </div>
+      {settings.mode === 'vad' && (
+        <div className="flex items-center gap-6">
+          <label className={`flex items-center gap-2 ${labelClass}`}>
+            Threshold
+            <input
+              type="range"
+              min={-70}
+              max={-20}
+              step={1}
+              value={settings.vadThresholdDb}
+              onChange={e => onChange({ ...settings, vadThresholdDb: Number(e.target.value) })}
+              className="w-24 accent-indigo-500"
+            />
+            <span className="w-12 text-slate-400">{settings.vadThresholdDb} dB</span>
+          </label>
+          <label className={`flex items-center gap-2 ${labelClass}`}>
+            Hangover
+            <input
+              type="range"
+              min={200}
+              max={2000}
+              step={100}
+              value={settings.vadHangoverMs}
+              onChange={e => onChange({ ...settings, vadHangoverMs: Number(e.target.value) })}
+              className="w-24 accent-indigo-500"
+            />
+            <span className="w-12 text-slate-400">{settings.vadHangoverMs} ms</span>
+          </label>
+        </div>
+      )}
+      {settings.mode === 'ptt' && (
+        <p className={labelClass}>Hold Space or the mic button to talk</p>
+      )}
+    </div>
+  );
+};
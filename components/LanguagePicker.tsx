@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { Language, UserSettings } from '../types';
+import { getLanguage, searchLanguages } from '../services/languageCatalog';
+import { toggleCode } from '../services/userSettings';
+
+interface LanguagePickerProps {
+  settings: UserSettings;
+  onSelect: (language: Language) => void;
+  onSettingsChange: (patch: Partial<UserSettings>) => void;
+  /** In multi-select mode, the languages picked so far, in queue order. */
+  selectedCodes?: string[];
+}
+
+const resolve = (codes: string[]) => codes.map(getLanguage).filter((l): l is Language => !!l);
+
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ settings, onSelect, onSettingsChange, selectedCodes }) => {
+  const [isBrowsing, setIsBrowsing] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const quickTiles = resolve(settings.quickTiles);
+  const favorites = resolve(settings.favorites);
+  const recents = resolve(settings.recents).filter(l => !settings.favorites.includes(l.code));
+  const results = useMemo(() => searchLanguages(query), [query]);
+
+  const selectionBadge = (language: Language) => {
+    const position = selectedCodes?.indexOf(language.code) ?? -1;
+    if (position < 0) return null;
+    return (
+      <span className="w-5 h-5 rounded-full bg-indigo-500 text-white text-[9px] font-black flex items-center justify-center shrink-0">
+        {position + 1}
+      </span>
+    );
+  };
+
+  const renderRow = (language: Language) => {
+    const isFavorite = settings.favorites.includes(language.code);
+    const isTile = settings.quickTiles.includes(language.code);
+    return (
+      <div key={language.code} className="group flex items-center gap-3 px-4 py-2.5 rounded-2xl hover:bg-white/5 transition-colors">
+        <button onClick={() => onSelect(language)} className="flex-grow flex items-baseline gap-3 text-left">
+          {selectionBadge(language)}
+          <span className="text-[11px] font-black uppercase tracking-widest text-slate-200">{language.name}</span>
+          <span dir={language.direction} className="text-[13px] text-slate-500">{language.nativeName}</span>
+        </button>
+        <button
+          onClick={() => onSettingsChange({ quickTiles: toggleCode(settings.quickTiles, language.code) })}
+          className={`text-[8px] font-black uppercase tracking-widest transition-colors ${isTile ? 'text-indigo-400' : 'text-slate-700 hover:text-slate-400'}`}
+          aria-label={isTile ? `Remove ${language.name} from quick tiles` : `Add ${language.name} to quick tiles`}
+        >
+          Tile
+        </button>
+        <button
+          onClick={() => onSettingsChange({ favorites: toggleCode(settings.favorites, language.code) })}
+          className={`text-sm transition-colors ${isFavorite ? 'text-amber-400' : 'text-slate-700 hover:text-slate-400'}`}
+          aria-label={isFavorite ? `Unpin ${language.name}` : `Pin ${language.name}`}
+        >
+          {isFavorite ? '★' : '☆'}
+        </button>
+      </div>
+    );
+  };
+
+  const sectionTitle = (title: string) => (
+    <h3 className="px-4 pt-4 pb-1 text-[9px] font-black uppercase tracking-[0.3em] text-slate-600">{title}</h3>
+  );
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+        {quickTiles.map(language => (
+          <button
+            key={language.code}
+            onClick={() => onSelect(language)}
+            className={`relative group flex flex-col items-center gap-4 p-5 rounded-[2rem] border transition-all active:scale-95 hover:-translate-y-1 hover:bg-indigo-600 hover:border-indigo-400 ${selectedCodes?.includes(language.code) ? 'bg-indigo-600/40 border-indigo-400' : 'bg-white/5 border-white/5'}`}
+          >
+            <div className="absolute top-3 right-3">{selectionBadge(language)}</div>
+            <div dir={language.direction} className="w-12 h-12 rounded-2xl bg-white/10 flex items-center justify-center text-xl font-bold group-hover:bg-white/20 transition-colors shadow-lg">
+              {Array.from(language.nativeName)[0]}
+            </div>
+            <span className="text-[10px] font-black uppercase tracking-widest">{language.name}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-8 text-center">
+        <button
+          onClick={() => setIsBrowsing(b => !b)}
+          className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 hover:text-indigo-300 transition-colors"
+        >
+          {isBrowsing ? 'Hide languages' : 'More languages'}
+        </button>
+      </div>
+
+      {isBrowsing && (
+        <div className="mt-6 space-y-2">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search by name, native name or code"
+            className="w-full bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-[12px] text-slate-200 focus:outline-none focus:border-indigo-500"
+            autoFocus
+          />
+          <div className="max-h-72 overflow-y-auto">
+            {!query && favorites.length > 0 && (
+              <>
+                {sectionTitle('Pinned')}
+                {favorites.map(renderRow)}
+              </>
+            )}
+            {!query && recents.length > 0 && (
+              <>
+                {sectionTitle('Recent')}
+                {recents.map(renderRow)}
+              </>
+            )}
+            {sectionTitle(query ? 'Results' : 'All languages')}
+            {results.map(renderRow)}
+            {results.length === 0 && (
+              <p className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-600">No language matches “{query}”</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { PhraseDraft, Phrasebook } from '../types';
+import { hasPhrase } from '../services/phrasebook';
+
+interface PhraseSaveButtonProps {
+  phrase: PhraseDraft;
+  phrasebooks: Phrasebook[];
+  /** `null` saves into a new phrasebook. */
+  onSave: (phrasebookId: string | null) => void;
+}
+
+const NEW_PHRASEBOOK = '__new__';
+
+/** A star that files a translation into a phrasebook of the user's choosing. */
+export const PhraseSaveButton: React.FC<PhraseSaveButtonProps> = ({ phrase, phrasebooks, onSave }) => {
+  const isSaved = phrasebooks.some(p => hasPhrase(p, phrase));
+
+  return (
+    <label
+      className={`relative inline-flex items-center gap-1 mt-1 text-[8px] font-black uppercase tracking-widest cursor-pointer transition-colors ${isSaved ? 'text-amber-300' : 'text-slate-500 hover:text-amber-300'}`}
+      title="Save to a phrasebook"
+    >
+      <span aria-hidden>{isSaved ? '★' : '☆'}</span>
+      {isSaved ? 'Saved' : 'Save'}
+      <select
+        value=""
+        onChange={e => e.target.value && onSave(e.target.value === NEW_PHRASEBOOK ? null : e.target.value)}
+        className="absolute inset-0 opacity-0 cursor-pointer"
+        aria-label="Save to phrasebook"
+      >
+        <option value="">Save to…</option>
+        {phrasebooks.map(p => (
+          <option key={p.id} value={p.id} disabled={hasPhrase(p, phrase)}>{p.name}</option>
+        ))}
+        <option value={NEW_PHRASEBOOK}>New phrasebook</option>
+      </select>
+    </label>
+  );
+};
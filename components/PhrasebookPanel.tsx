@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { Phrase, Phrasebook } from '../types';
+import { createPhrasebook, phrasebookFromJson, phrasebookToJson } from '../services/phrasebook';
+import { textDirection } from '../services/languageCatalog';
+import { downloadFile } from '../services/sessionExport';
+
+interface PhrasebookPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  phrasebooks: Phrasebook[];
+  onChange: (phrasebooks: Phrasebook[]) => void;
+  /** Practice needs a live session to hear the attempt. */
+  canPractice: boolean;
+  onPractice: (phrase: Phrase) => void;
+}
+
+export const PhrasebookPanel: React.FC<PhrasebookPanelProps> = ({ isOpen, onClose, phrasebooks, onChange, canPractice, onPractice }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const selected = phrasebooks.find(p => p.id === selectedId) ?? phrasebooks[0] ?? null;
+
+  const updateSelected = (update: (phrasebook: Phrasebook) => Phrasebook) => {
+    onChange(phrasebooks.map(p => (p.id === selected?.id ? update(p) : p)));
+  };
+
+  const handleCreate = () => {
+    const phrasebook = createPhrasebook(`Phrasebook ${phrasebooks.length + 1}`);
+    onChange([...phrasebooks, phrasebook]);
+    setSelectedId(phrasebook.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onChange(phrasebooks.filter(p => p.id !== selected.id));
+    setSelectedId(phrasebooks.find(p => p.id !== selected.id)?.id ?? null);
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const phrasebook = phrasebookFromJson(await file.text());
+      onChange([...phrasebooks, phrasebook]);
+      setSelectedId(phrasebook.id);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  const actionClass = 'text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-300 transition-colors disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-full bg-slate-900/95 border border-white/10 rounded-[2.5rem] flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-[12px] font-black uppercase tracking-[0.4em] text-indigo-400">Phrasebooks</h2>
+          <div className="flex items-center gap-6">
+            <button onClick={handleCreate} className={actionClass}>New</button>
+            <button onClick={() => importInputRef.current?.click()} className={actionClass}>Import</button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </header>
+        {importError && (
+          <p className="px-8 pt-4 text-red-400 text-[10px] font-black uppercase tracking-widest">{importError}</p>
+        )}
+
+        <div className="flex min-h-0 flex-grow">
+          <nav className="w-56 shrink-0 border-r border-white/5 p-4 space-y-1 overflow-y-auto">
+            {phrasebooks.length === 0 && (
+              <p className="px-3 py-2 text-[9px] font-black uppercase tracking-widest text-slate-600">No phrasebooks yet</p>
+            )}
+            {phrasebooks.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedId(p.id)}
+                className={`w-full text-left px-3 py-2 rounded-xl text-[11px] font-bold transition-colors ${p.id === selected?.id ? 'bg-white/10 text-white' : 'text-slate-400 hover:bg-white/5'}`}
+              >
+                {p.name}
+                <span className="ml-2 text-[8px] font-black text-slate-600">{p.phrases.length}</span>
+              </button>
+            ))}
+          </nav>
+
+          {selected ? (
+            <section className="flex-grow min-w-0 p-6 space-y-5 overflow-y-auto">
+              <input
+                value={selected.name}
+                onChange={e => updateSelected(p => ({ ...p, name: e.target.value }))}
+                className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[13px] font-bold text-slate-200 focus:outline-none focus:border-indigo-500"
+                aria-label="Phrasebook name"
+              />
+
+              {selected.phrases.length === 0 && (
+                <p className="text-center text-slate-600 text-[10px] font-black uppercase tracking-[0.3em] py-8">Star a translation to save it here</p>
+              )}
+              <ul className="space-y-2">
+                {selected.phrases.map(phrase => (
+                  <li key={phrase.id} className="flex items-start gap-4 px-4 py-3 rounded-2xl bg-white/5 border border-white/5">
+                    <div className="flex-grow min-w-0 space-y-1">
+                      <p className="text-[11px] text-slate-400" dir="auto">{phrase.sourceText}</p>
+                      <p className="text-[13px] text-slate-100" dir={textDirection(phrase.targetLanguage)}>{phrase.translation}</p>
+                      {phrase.romanization && <p className="text-[11px] italic text-slate-500">{phrase.romanization}</p>}
+                      <p className="text-[8px] font-black uppercase tracking-widest text-slate-600">
+                        {phrase.sourceLanguage ? `${phrase.sourceLanguage} → ` : ''}{phrase.targetLanguage}
+                      </p>
+                    </div>
+                    <div className="shrink-0 flex flex-col items-end gap-2">
+                      <button
+                        onClick={() => onPractice(phrase)}
+                        disabled={!canPractice}
+                        title={canPractice ? 'Say it back and get feedback' : 'Start a session to practice'}
+                        className={actionClass}
+                      >
+                        Practice
+                      </button>
+                      <button
+                        onClick={() => updateSelected(p => ({ ...p, phrases: p.phrases.filter(x => x.id !== phrase.id) }))}
+                        className="text-slate-600 hover:text-red-400 text-[9px] font-black uppercase tracking-widest"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap items-center gap-6">
+                <button
+                  onClick={() => downloadFile(`${selected.name || 'phrasebook'}.json`, phrasebookToJson(selected), 'application/json')}
+                  className={actionClass}
+                >
+                  Export
+                </button>
+                <button onClick={handleDelete} className="ml-auto text-[9px] font-black uppercase tracking-widest text-slate-600 hover:text-red-400">
+                  Delete phrasebook
+                </button>
+              </div>
+            </section>
+          ) : (
+            <p className="flex-grow p-10 text-center text-slate-600 text-[10px] font-black uppercase tracking-[0.3em]">Create or import a phrasebook to get started</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
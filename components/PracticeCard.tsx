@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Phrase, PracticeResult, WordFeedbackStatus } from '../types';
+import { encodeWav } from '../utils';
+import { getEntryAudio } from '../services/historyStore';
+import { findLanguage, textDirection } from '../services/languageCatalog';
+
+interface PracticeCardProps {
+  phrase: Phrase;
+  /** The latest attempt's feedback; null until the user has said the phrase. */
+  result: PracticeResult | null;
+  /** The mic is muted while the sample plays so it isn't scored as an attempt. */
+  onPlaybackChange: (isPlaying: boolean) => void;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const WORD_CLASSES: Record<WordFeedbackStatus, string> = {
+  correct: 'text-emerald-300',
+  close: 'text-amber-300 underline decoration-dotted',
+  missed: 'text-red-400 line-through',
+  extra: 'text-slate-500 italic',
+};
+
+const scoreClass = (score: number) => (score >= 0.85 ? 'text-emerald-300' : score >= 0.6 ? 'text-amber-300' : 'text-red-400');
+
+export const PracticeCard: React.FC<PracticeCardProps> = ({ phrase, result, onPlaybackChange, onRetry, onClose }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    onPlaybackChange(isPlaying);
+  }, [isPlaying, onPlaybackChange]);
+
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    window.speechSynthesis?.cancel();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    urlRef.current = null;
+    setIsPlaying(false);
+  }, [phrase.id]);
+
+  // Plays the recorded translation, or the browser's own voice when the recording isn't available.
+  const handlePlay = async () => {
+    if (isPlaying) return;
+    const stored = phrase.audioEntryId
+      ? await getEntryAudio(phrase.audioEntryId).catch(error => {
+          console.warn("Could not load the phrase recording:", error);
+          return null;
+        })
+      : null;
+    if (stored) {
+      if (!audioRef.current) {
+        urlRef.current = URL.createObjectURL(new Blob([encodeWav(stored.pcm, stored.sampleRate)], { type: 'audio/wav' }));
+        audioRef.current = new Audio(urlRef.current);
+        audioRef.current.onended = () => setIsPlaying(false);
+      }
+      setIsPlaying(true);
+      await audioRef.current.play().catch(() => setIsPlaying(false));
+      return;
+    }
+    if (!window.speechSynthesis) return;
+    const utterance = new SpeechSynthesisUtterance(phrase.translation);
+    utterance.lang = findLanguage(phrase.targetLanguage)?.code ?? '';
+    utterance.onend = () => setIsPlaying(false);
+    utterance.onerror = () => setIsPlaying(false);
+    setIsPlaying(true);
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const actionClass = 'text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white transition-colors disabled:opacity-30';
+
+  return (
+    <div className="w-full max-w-lg rounded-[2rem] border border-indigo-500/30 bg-indigo-500/5 px-6 py-5 space-y-4 text-center">
+      <p className="text-[8px] font-black uppercase tracking-widest text-indigo-400">Practice · {phrase.targetLanguage}</p>
+      <p className="text-[18px] text-slate-100" dir={textDirection(phrase.targetLanguage)}>{phrase.translation}</p>
+      {phrase.romanization && <p className="text-[12px] italic text-slate-400">{phrase.romanization}</p>}
+      <p className="text-[11px] text-slate-500" dir="auto">{phrase.sourceText}</p>
+
+      {result ? (
+        <div className="space-y-2" aria-live="polite">
+          <p className={`text-[28px] font-black ${scoreClass(result.score)}`}>{Math.round(result.score * 100)}%</p>
+          <p className="text-[14px] leading-relaxed" dir={textDirection(phrase.targetLanguage)}>
+            {result.words.map((w, i) => (
+              <span key={i} className={`mx-1 ${WORD_CLASSES[w.status]}`} title={w.heard ? `Heard "${w.heard}"` : w.status}>{w.word}</span>
+            ))}
+          </p>
+          <p className="text-[10px] text-slate-500">Heard: <span dir="auto">{result.heard || '—'}</span></p>
+        </div>
+      ) : (
+        <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+          {isPlaying ? 'Listen…' : 'Now say it aloud'}
+        </p>
+      )}
+
+      <div className="flex justify-center gap-6">
+        <button onClick={handlePlay} disabled={isPlaying} className={actionClass}>{isPlaying ? 'Playing' : 'Play'}</button>
+        {result && <button onClick={onRetry} className={actionClass}>Try again</button>}
+        <button onClick={onClose} className={`${actionClass} text-slate-600`}>Done</button>
+      </div>
+    </div>
+  );
+};
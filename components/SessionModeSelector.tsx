@@ -0,0 +1,58 @@
+import React from 'react';
+import { SessionMode } from '../types';
+import { LANGUAGE_CATALOG } from '../services/languageCatalog';
+
+interface SessionModeSelectorProps {
+  mode: SessionMode;
+  interpreterPair: [string, string];
+  /** Mode and pair are baked into the system instruction, so they lock once connected. */
+  disabled: boolean;
+  onChange: (patch: { sessionMode?: SessionMode; interpreterPair?: [string, string] }) => void;
+}
+
+const MODES: { mode: SessionMode; label: string }[] = [
+  { mode: 'translate', label: 'Translate' },
+  { mode: 'interpreter', label: 'Interpreter' },
+];
+
+export const SessionModeSelector: React.FC<SessionModeSelectorProps> = ({ mode, interpreterPair, disabled, onChange }) => {
+  const selectClass = 'bg-white/5 border border-white/10 rounded-xl px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-slate-300 focus:outline-none focus:border-indigo-500 disabled:opacity-40';
+
+  // Both speakers in one language would leave nothing to interpret.
+  const setSpeakerLanguage = (index: 0 | 1, code: string) => {
+    if (code === interpreterPair[1 - index]) return;
+    const pair: [string, string] = [interpreterPair[0], interpreterPair[1]];
+    pair[index] = code;
+    onChange({ interpreterPair: pair });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex p-1 bg-white/5 border border-white/10 rounded-2xl">
+        {MODES.map(m => (
+          <button
+            key={m.mode}
+            onClick={() => onChange({ sessionMode: m.mode })}
+            disabled={disabled}
+            className={`px-5 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all disabled:cursor-not-allowed ${mode === m.mode ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {mode === 'interpreter' && (
+        <div className="flex items-center gap-3 text-[9px] font-black uppercase tracking-widest text-slate-600">
+          <span>A</span>
+          <select value={interpreterPair[0]} onChange={e => setSpeakerLanguage(0, e.target.value)} disabled={disabled} className={selectClass} aria-label="Speaker A language">
+            {LANGUAGE_CATALOG.map(l => <option key={l.code} value={l.code} disabled={l.code === interpreterPair[1]}>{l.name}</option>)}
+          </select>
+          <span>⇄</span>
+          <select value={interpreterPair[1]} onChange={e => setSpeakerLanguage(1, e.target.value)} disabled={disabled} className={selectClass} aria-label="Speaker B language">
+            {LANGUAGE_CATALOG.map(l => <option key={l.code} value={l.code} disabled={l.code === interpreterPair[0]}>{l.name}</option>)}
+          </select>
+          <span>B</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { SessionMetrics } from '../types';
+import { MetricsSummary, metricsToJson, ROLLING_WINDOW, summarizeByVoice, summarizeMetrics } from '../services/sessionMetrics';
+import { downloadFile } from '../services/sessionExport';
+
+interface SessionStatsPanelProps {
+  /** The live session, or the last one once it has ended. */
+  current: SessionMetrics | null;
+  /** Finished sessions, oldest first. */
+  history: SessionMetrics[];
+}
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`);
+const formatSeconds = (s: number) => (s >= 60 ? `${Math.floor(s / 60)}m ${Math.round(s % 60)}s` : `${s.toFixed(1)} s`);
+
+const ROWS: { label: string; value: (s: MetricsSummary) => string }[] = [
+  { label: 'Connect time', value: s => formatMs(s.connectMs) },
+  { label: 'Latency', value: s => formatMs(s.latencyMs) },
+  { label: 'Turn duration', value: s => formatMs(s.turnMs) },
+  { label: 'Turns', value: s => (s.sessions > 1 ? (s.turns / s.sessions).toFixed(1) : String(s.turns)) },
+  { label: 'Audio sent', value: s => formatSeconds(s.audioSentSeconds) },
+  { label: 'Audio received', value: s => formatSeconds(s.audioReceivedSeconds) },
+  { label: 'Interruptions', value: s => (s.sessions > 1 ? s.interruptions.toFixed(1) : String(s.interruptions)) },
+  { label: 'Reconnects', value: s => (s.sessions > 1 ? s.reconnects.toFixed(1) : String(s.reconnects)) },
+];
+
+export const SessionStatsPanel: React.FC<SessionStatsPanelProps> = ({ current, history }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const recent = history.slice(-ROLLING_WINDOW);
+  const session = current ? summarizeMetrics([current]) : null;
+  const rolling = summarizeMetrics(recent);
+  const byVoice = summarizeByVoice(history);
+  const lastLatency = current?.turns.at(-1)?.latencyMs ?? null;
+
+  const headClass = 'px-3 py-1 text-[8px] font-black uppercase tracking-widest text-slate-600';
+  const cellClass = 'px-3 py-1 text-[11px] text-slate-300 tabular-nums';
+
+  return (
+    <section className="relative z-10 border-t border-white/5 bg-slate-950/40">
+      <div className="px-10 py-3 flex items-center gap-6 text-[9px] font-black uppercase tracking-widest">
+        <button onClick={() => setIsOpen(v => !v)} className="text-slate-500 hover:text-white transition-colors" aria-expanded={isOpen}>
+          {isOpen ? '▾' : '▸'} Session stats
+        </button>
+        <span className="text-slate-700">Last latency {formatMs(lastLatency)}</span>
+        <span className="text-slate-700">Rolling avg {formatMs(rolling.latencyMs)}</span>
+        {isOpen && (
+          <button
+            onClick={() => downloadFile(`polyglot-metrics-${new Date().toISOString().slice(0, 10)}.json`, metricsToJson(current, history), 'application/json')}
+            disabled={!current && history.length === 0}
+            className="ml-auto text-slate-500 hover:text-indigo-300 transition-colors disabled:opacity-30"
+          >
+            Export JSON
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="px-7 pb-5 flex flex-wrap gap-10 overflow-x-auto">
+          <table className="text-left">
+            <thead>
+              <tr>
+                <th className={headClass} />
+                <th className={headClass}>{current?.endedAt ? 'Last session' : 'This session'}</th>
+                <th className={headClass}>Last {recent.length} avg</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map(row => (
+                <tr key={row.label}>
+                  <td className={headClass}>{row.label}</td>
+                  <td className={cellClass}>{session ? row.value(session) : '—'}</td>
+                  <td className={cellClass}>{recent.length > 0 ? row.value(rolling) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {byVoice.length > 0 && (
+            <table className="text-left">
+              <thead>
+                <tr>
+                  <th className={headClass}>Voice</th>
+                  <th className={headClass}>Sessions</th>
+                  <th className={headClass}>Latency</th>
+                  <th className={headClass}>Turn</th>
+                  <th className={headClass}>Connect</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byVoice.map(({ voice, summary }) => (
+                  <tr key={voice}>
+                    <td className={headClass}>{voice}</td>
+                    <td className={cellClass}>{summary.sessions}</td>
+                    <td className={cellClass}>{formatMs(summary.latencyMs)}</td>
+                    <td className={cellClass}>{formatMs(summary.turnMs)}</td>
+                    <td className={cellClass}>{formatMs(summary.connectMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
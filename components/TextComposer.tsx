@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+
+interface TextComposerProps {
+  /** Phrases can only be sent while a session is live. */
+  isConnected: boolean;
+  micEnabled: boolean;
+  /** The microphone is chosen when a session starts, so it can't be toggled mid-session. */
+  micLocked: boolean;
+  onMicEnabledChange: (enabled: boolean) => void;
+  onSend: (text: string) => void;
+}
+
+export const TextComposer: React.FC<TextComposerProps> = ({ isConnected, micEnabled, micLocked, onMicEnabledChange, onSend }) => {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const phrase = text.trim();
+    if (!phrase || !isConnected) return;
+    onSend(phrase);
+    setText('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-lg flex items-center gap-2">
+      <button
+        type="button"
+        onClick={() => onMicEnabledChange(!micEnabled)}
+        disabled={micLocked}
+        title={micEnabled ? 'Start sessions without the microphone' : 'Use the microphone in new sessions'}
+        className={`shrink-0 px-3 py-3 rounded-2xl border text-[8px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${micEnabled ? 'border-white/10 text-slate-400 hover:text-white' : 'bg-amber-500/10 border-amber-500/30 text-amber-300'}`}
+      >
+        {micEnabled ? 'Mic on' : 'Mic off'}
+      </button>
+      <input
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder={isConnected ? 'Type a phrase to translate…' : 'Connect, then type a phrase…'}
+        disabled={!isConnected}
+        dir="auto"
+        className="flex-grow min-w-0 bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-[12px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500 disabled:opacity-40"
+        aria-label="Phrase to translate"
+      />
+      <button
+        type="submit"
+        disabled={!isConnected || !text.trim()}
+        className="shrink-0 px-5 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-[9px] font-black uppercase tracking-widest transition-all disabled:opacity-30 active:scale-[0.98]"
+      >
+        Send
+      </button>
+    </form>
+  );
+};
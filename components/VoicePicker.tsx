@@ -0,0 +1,41 @@
+import React from 'react';
+import { VoiceProfile } from '../types';
+import { VOICES } from '../services/voiceCatalog';
+import { AuditionButton } from './AuditionButton';
+
+interface VoicePickerProps {
+  profile: VoiceProfile;
+  onDefaultChange: (voice: string) => void;
+  onAudition: (voice: string) => Promise<void>;
+  onOpenProfiles: () => void;
+}
+
+export const VoicePicker: React.FC<VoicePickerProps> = ({ profile, onDefaultChange, onAudition, onOpenProfiles }) => {
+  const mappedCount = Object.keys(profile.byLanguage).length;
+
+  return (
+    <>
+      <span className="text-[9px] font-black text-slate-700 uppercase tracking-[0.3em] ml-2">Synthesis Aura</span>
+      <div className="flex flex-col gap-1.5 p-3 bg-slate-900/60 backdrop-blur-xl rounded-[2rem] border border-white/10 shadow-2xl">
+        {VOICES.map(v => (
+          <div key={v.name} className="flex items-center gap-1">
+            <button
+              onClick={() => onDefaultChange(v.name)}
+              title={v.description}
+              className={`flex-grow px-4 py-2 rounded-xl text-left text-[9px] font-black uppercase tracking-widest transition-all ${profile.defaultVoice === v.name ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-slate-500 hover:bg-white/5 hover:text-slate-300'}`}
+            >
+              {v.name}
+            </button>
+            <AuditionButton label={v.name} onAudition={() => onAudition(v.name)} />
+          </div>
+        ))}
+        <button
+          onClick={onOpenProfiles}
+          className="mt-1 px-4 py-1.5 text-left text-[8px] font-black uppercase tracking-widest text-slate-600 hover:text-indigo-300 transition-colors"
+        >
+          Per language{mappedCount > 0 ? ` · ${mappedCount}` : ''}
+        </button>
+      </div>
+    </>
+  );
+};
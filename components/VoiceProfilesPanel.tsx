@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Language, VoiceProfile } from '../types';
+import { getLanguage, LANGUAGE_CATALOG } from '../services/languageCatalog';
+import { VOICES, withLanguageVoice } from '../services/voiceCatalog';
+import { AuditionButton } from './AuditionButton';
+
+interface VoiceProfilesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: VoiceProfile;
+  /** Languages listed even before they have a voice, such as the quick tiles. */
+  suggestedCodes: string[];
+  onChange: (profile: VoiceProfile) => void;
+  onAudition: (voice: string, language: Language) => Promise<void>;
+}
+
+export const VoiceProfilesPanel: React.FC<VoiceProfilesPanelProps> = ({ isOpen, onClose, profile, suggestedCodes, onChange, onAudition }) => {
+  const [extraCodes, setExtraCodes] = useState<string[]>([]);
+
+  if (!isOpen) return null;
+
+  const languages = [...new Set([...Object.keys(profile.byLanguage), ...suggestedCodes, ...extraCodes])]
+    .map(getLanguage)
+    .filter((l): l is Language => !!l);
+
+  const selectClass = 'bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-slate-200 focus:outline-none focus:border-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-full bg-slate-900/95 border border-white/10 rounded-[2.5rem] flex flex-col overflow-hidden animate-in zoom-in-95 duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+          <h2 className="text-[12px] font-black uppercase tracking-[0.4em] text-indigo-400">Voices</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+        </header>
+
+        <section className="p-8 space-y-4 overflow-y-auto">
+          <p className="text-[10px] text-slate-500">
+            Translations into these languages use the voice chosen here; everything else uses {profile.defaultVoice}.
+            Changing voice mid-session briefly reconnects.
+          </p>
+          <ul className="space-y-2">
+            {languages.map(language => {
+              const voice = profile.byLanguage[language.code] ?? null;
+              return (
+                <li key={language.code} className="flex items-center gap-3">
+                  <span className="flex-grow text-[11px] font-bold text-slate-200">
+                    {language.name}
+                    <span className="ml-2 font-normal text-slate-500">{language.nativeName}</span>
+                  </span>
+                  <select
+                    value={voice ?? ''}
+                    onChange={e => onChange(withLanguageVoice(profile, language.code, e.target.value || null))}
+                    className={selectClass}
+                    aria-label={`Voice for ${language.name}`}
+                  >
+                    <option value="">Default ({profile.defaultVoice})</option>
+                    {VOICES.map(v => <option key={v.name} value={v.name}>{v.name} · {v.description}</option>)}
+                  </select>
+                  <AuditionButton
+                    label={`${voice ?? profile.defaultVoice} in ${language.name}`}
+                    onAudition={() => onAudition(voice ?? profile.defaultVoice, language)}
+                  />
+                </li>
+              );
+            })}
+          </ul>
+          <select
+            value=""
+            onChange={e => e.target.value && setExtraCodes(prev => [...prev, e.target.value])}
+            className="bg-transparent text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-300 focus:outline-none cursor-pointer"
+            aria-label="Add language"
+          >
+            <option value="">Add language</option>
+            {LANGUAGE_CATALOG.filter(l => !languages.includes(l)).map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+          </select>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,38 @@
-
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { peakLevel, rmsDb } from '../audio/levels';
 
 interface VoiceVisualizerProps {
   isActive: boolean;
-  isModelSpeaking: boolean;
+  /** Taps the microphone signal. */
+  input: AnalyserNode | null;
+  /** Taps the model's playback. */
+  output: AnalyserNode | null;
 }
 
-export const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ isActive, isModelSpeaking }) => {
+type InputWarning = 'clipping' | 'silence' | null;
+
+const USER_COLOR = '#818cf8';
+const MODEL_COLOR = '#38bdf8';
+const METER_FLOOR_DB = -60;
+// Below this for SILENCE_MS the mic is probably muted or disconnected.
+const SILENCE_DB = -65;
+const SILENCE_MS = 4000;
+const CLIP_PEAK = 0.99;
+const CLIP_HOLD_MS = 1500;
+
+const WARNING_TEXT: Record<Exclude<InputWarning, null>, string> = {
+  clipping: 'Input is clipping — move back or lower the mic gain',
+  silence: 'No signal from your microphone — is it muted?',
+};
+
+const meterFraction = (db: number) => Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+
+export const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ isActive, input, output }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [warning, setWarning] = useState<InputWarning>(null);
 
   useEffect(() => {
+    setWarning(null);
     if (!isActive) return;
 
     const canvas = canvasRef.current;
@@ -18,45 +41,85 @@ export const VoiceVisualizer: React.FC<VoiceVisualizerProps> = ({ isActive, isMo
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    const inputSamples = input ? new Float32Array(input.fftSize) : null;
+    const outputSamples = output ? new Float32Array(output.fftSize) : null;
+    const startedAt = performance.now();
+    let lastSoundAt = startedAt;
+    let lastClipAt = -Infinity;
+    let currentWarning: InputWarning = null;
     let animationId: number;
-    let offset = 0;
 
-    const render = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      const time = Date.now() * 0.005;
-      const centerY = canvas.height / 2;
-      const width = canvas.width;
-      
+    const drawWave = (samples: Float32Array, color: string, top: number, height: number) => {
+      const centerY = top + height / 2;
       ctx.beginPath();
-      ctx.lineWidth = 3;
-      
-      if (isModelSpeaking) {
-        ctx.strokeStyle = '#38bdf8'; // Blue for model
-      } else {
-        ctx.strokeStyle = '#818cf8'; // Indigo for user
-      }
-
-      for (let x = 0; x < width; x++) {
-        const amplitude = isModelSpeaking ? 30 : 15;
-        const frequency = isModelSpeaking ? 0.02 : 0.01;
-        const y = centerY + Math.sin(x * frequency + time) * amplitude * Math.sin(time * 0.5);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = color;
+      const step = samples.length / canvas.width;
+      for (let x = 0; x < canvas.width; x++) {
+        const y = centerY + samples[Math.floor(x * step)] * (height / 2);
         if (x === 0) ctx.moveTo(x, y);
         else ctx.lineTo(x, y);
       }
-      
       ctx.stroke();
+    };
+
+    const drawMeter = (db: number, color: string, x: number) => {
+      const height = canvas.height - 16;
+      const filled = meterFraction(db) * height;
+      ctx.fillStyle = 'rgba(255,255,255,0.06)';
+      ctx.fillRect(x, 8, 6, height);
+      ctx.fillStyle = color;
+      ctx.fillRect(x, 8 + height - filled, 6, filled);
+    };
+
+    const render = () => {
+      const now = performance.now();
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const half = canvas.height / 2;
+
+      if (input && inputSamples) {
+        input.getFloatTimeDomainData(inputSamples);
+        const level = rmsDb(inputSamples);
+        if (level > SILENCE_DB) lastSoundAt = now;
+        if (peakLevel(inputSamples) >= CLIP_PEAK) lastClipAt = now;
+        drawWave(inputSamples, USER_COLOR, 0, half);
+        drawMeter(level, USER_COLOR, canvas.width - 22);
+      }
+      if (output && outputSamples) {
+        output.getFloatTimeDomainData(outputSamples);
+        drawWave(outputSamples, MODEL_COLOR, half, half);
+        drawMeter(rmsDb(outputSamples), MODEL_COLOR, canvas.width - 12);
+      }
+
+      const next: InputWarning = !input ? null
+        : now - lastClipAt < CLIP_HOLD_MS ? 'clipping'
+        : now - lastSoundAt > SILENCE_MS ? 'silence'
+        : null;
+      if (next !== currentWarning) {
+        currentWarning = next;
+        setWarning(next);
+      }
+
       animationId = requestAnimationFrame(render);
     };
 
     render();
     return () => cancelAnimationFrame(animationId);
-  }, [isActive, isModelSpeaking]);
+  }, [isActive, input, output]);
 
   return (
-    <div className={`relative w-full h-32 flex items-center justify-center rounded-2xl overflow-hidden bg-slate-800/50 border border-slate-700 transition-all duration-500 ${isActive ? 'opacity-100 scale-100' : 'opacity-0 scale-95'}`}>
+    <div className={`relative w-full h-32 flex items-center justify-center rounded-2xl overflow-hidden bg-slate-800/50 border transition-all duration-500 ${warning ? 'border-amber-500/60' : 'border-slate-700'} ${isActive ? 'opacity-100 scale-100' : 'opacity-0 scale-95'}`}>
       <canvas ref={canvasRef} width={600} height={128} className="w-full h-full" />
       <div className="absolute inset-0 bg-gradient-to-r from-slate-900/40 via-transparent to-slate-900/40 pointer-events-none" />
+      <div className="absolute top-2 left-3 flex gap-3 text-[8px] font-black uppercase tracking-widest pointer-events-none">
+        <span style={{ color: USER_COLOR }}>You</span>
+        <span style={{ color: MODEL_COLOR }}>Polyglot</span>
+      </div>
+      {warning && (
+        <p className="absolute bottom-2 inset-x-0 text-center text-amber-400 text-[9px] font-black uppercase tracking-widest" role="alert">
+          {WARNING_TEXT[warning]}
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,33 @@
+import type http from 'node:http';
+
+/** A caller whose access token the identity provider has vouched for. */
+export interface VerifiedUser {
+  /** The provider's stable id for the user (`sub`). */
+  subject: string;
+  email: string | null;
+}
+
+/** Resolves an access token to its user, or null when the provider rejects it. */
+export type TokenVerifier = (accessToken: string) => Promise<VerifiedUser | null>;
+
+/** The bearer token from an `Authorization` header, if there is one. */
+export function bearerToken(req: http.IncomingMessage): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Verifies access tokens against an OpenID Connect userinfo endpoint: a token
+ * the provider answers for is valid, and the user it names is the caller.
+ * Failures reaching the provider throw rather than reading as a bad token.
+ */
+export function createUserInfoVerifier(userInfoUrl: string): TokenVerifier {
+  return async accessToken => {
+    const response = await fetch(userInfoUrl, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (response.status === 401 || response.status === 403) return null;
+    if (!response.ok) throw new Error(`Userinfo request failed (${response.status}).`);
+    const info = await response.json();
+    if (typeof info?.sub !== 'string' || !info.sub) return null;
+    return { subject: info.sub, email: typeof info.email === 'string' ? info.email : null };
+  };
+}
@@ -0,0 +1,47 @@
+import http from 'node:http';
+
+export interface FakeUpstreamOptions {
+  /** The key the relay must present; any other key is refused the way Gemini refuses an invalid one. */
+  apiKey: string;
+  /** Answer token requests with this status instead, to exercise error paths. */
+  failWith?: number;
+}
+
+/**
+ * Stands in for the Gemini API's ephemeral-token endpoint so the relay can be
+ * exercised without network access. Every token it issues is recorded in
+ * `issued`, along with the constraints the relay asked for.
+ */
+export function createFakeUpstream(options: FakeUpstreamOptions): http.Server & { issued: unknown[] } {
+  const issued: unknown[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const reply = (status: number, payload: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+      if (req.method !== 'POST' || !req.url?.split('?')[0].endsWith('/auth_tokens')) {
+        reply(404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+      } else if (req.headers['x-goog-api-key'] !== options.apiKey) {
+        reply(400, {
+          error: {
+            code: 400,
+            message: 'API key not valid. Please pass a valid API key.',
+            status: 'INVALID_ARGUMENT',
+            details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID', domain: 'googleapis.com' }],
+          },
+        });
+      } else if (options.failWith) {
+        reply(options.failWith, { error: { code: options.failWith, message: 'Simulated failure', status: 'UNAVAILABLE' } });
+      } else {
+        const request = body ? JSON.parse(body) : {};
+        const name = `auth_tokens/fake-${issued.length + 1}`;
+        issued.push({ name, request });
+        reply(200, { name });
+      }
+    });
+  });
+  return Object.assign(server, { issued });
+}
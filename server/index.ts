@@ -0,0 +1,43 @@
+import { createUserInfoVerifier } from './auth';
+import { createFakeUpstream } from './fakeUpstream';
+import { createRelayServer } from './relay';
+
+const env = process.env;
+const port = Number(env.RELAY_PORT ?? 8787);
+let upstreamUrl = env.GEMINI_UPSTREAM_URL;
+let apiKey = env.GEMINI_API_KEY;
+
+// `--fake-upstream` serves tokens from a local stand-in, for working offline.
+if (process.argv.includes('--fake-upstream')) {
+  apiKey = apiKey || 'fake-key';
+  const fake = createFakeUpstream({ apiKey });
+  await new Promise<void>(resolve => fake.listen(0, '127.0.0.1', resolve));
+  const address = fake.address();
+  upstreamUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+  console.log(`Fake Gemini upstream on ${upstreamUrl}`);
+}
+
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to the relay environment, not to the client.');
+  process.exit(1);
+}
+
+// Callers are verified against the sign-in provider's userinfo endpoint; real sign-in implies it.
+const userInfoUrl = env.RELAY_USERINFO_URL
+  || (env.OAUTH_CLIENT_ID ? env.OAUTH_USERINFO_URL || 'https://openidconnect.googleapis.com/v1/userinfo' : undefined);
+if (!userInfoUrl) {
+  console.warn('RELAY_USERINFO_URL is not set: serving unauthenticated callers, rate-limited per address. Use this for local development only.');
+}
+
+const server = createRelayServer({
+  apiKey,
+  upstreamUrl,
+  model: env.LIVE_MODEL ?? 'gemini-2.5-flash-native-audio-preview-09-2025',
+  tokensPerMinute: Number(env.RELAY_TOKENS_PER_MINUTE ?? 6),
+  auditionsPerMinute: Number(env.RELAY_AUDITIONS_PER_MINUTE ?? 10),
+  newSessionWindowMs: 60_000,
+  sessionLifetimeMs: 30 * 60_000,
+  allowedOrigin: env.RELAY_ALLOWED_ORIGIN,
+  verifyToken: userInfoUrl ? createUserInfoVerifier(userInfoUrl) : undefined,
+});
+server.listen(port, () => console.log(`Polyglot relay listening on http://localhost:${port}`));
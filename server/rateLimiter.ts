@@ -0,0 +1,30 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  /** When not allowed, how long until the oldest request leaves the window. */
+  retryAfterMs: number;
+}
+
+/** Sliding-window limiter: at most `limit` hits per key in any `windowMs`. */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  hit(key: string, now = Date.now()): RateLimitResult {
+    const recent = (this.hits.get(key) ?? []).filter(t => now - t < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfterMs: this.windowMs - (now - recent[0]) };
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /** Drops keys with no hits in the current window so the map doesn't grow forever. */
+  prune(now = Date.now()): void {
+    for (const [key, times] of this.hits) {
+      if (times.every(t => now - t >= this.windowMs)) this.hits.delete(key);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import { createUserInfoVerifier, TokenVerifier } from './auth';
+import { createFakeUpstream } from './fakeUpstream';
+import { createRelayServer, RelayLogEntry, RelayOptions } from './relay';
+
+const API_KEY = 'test-key';
+const MODEL = 'test-live-model';
+
+// Access tokens the test identity provider accepts, and whose they are.
+const ACCOUNTS: Record<string, string> = { 'token-a1': 'user-a', 'token-a2': 'user-a', 'token-b': 'user-b' };
+const verifyToken: TokenVerifier = async token => (ACCOUNTS[token] ? { subject: ACCOUNTS[token], email: null } : null);
+
+const listen = async (server: http.Server): Promise<string> => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  return `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+};
+
+const close = (server: http.Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+async function startRelay(upstreamUrl: string, options: Partial<RelayOptions> = {}) {
+  const logs: RelayLogEntry[] = [];
+  const server = createRelayServer({
+    apiKey: API_KEY,
+    model: MODEL,
+    upstreamUrl,
+    tokensPerMinute: 2,
+    auditionsPerMinute: 1,
+    newSessionWindowMs: 60_000,
+    sessionLifetimeMs: 30 * 60_000,
+    log: entry => logs.push(entry),
+    ...options,
+  });
+  const url = await listen(server);
+  const requestToken = async (accessToken?: string, purpose?: string) => {
+    const response = await fetch(`${url}/api/live-token${purpose ? `?purpose=${purpose}` : ''}`, {
+      method: 'POST',
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    });
+    return { status: response.status, body: await response.json() };
+  };
+  return { server, logs, requestToken };
+}
+
+describe('relay', () => {
+  const upstream = createFakeUpstream({ apiKey: API_KEY });
+  let upstreamUrl = '';
+
+  before(async () => {
+    upstreamUrl = await listen(upstream);
+  });
+
+  after(() => close(upstream));
+
+  it('issues a token restricted to the live model', async () => {
+    const relay = await startRelay(upstreamUrl, { verifyToken });
+    try {
+      const { status, body } = await relay.requestToken('token-a1');
+      assert.equal(status, 200);
+      assert.match(body.token, /^auth_tokens\/fake-/);
+      assert.ok(Date.parse(body.expiresAt) > Date.now());
+      const issued = upstream.issued.at(-1) as { name: string; request: any };
+      assert.equal(issued.name, body.token);
+      assert.equal(issued.request.uses, 1);
+      assert.match(JSON.stringify(issued.request), new RegExp(MODEL));
+      assert.equal(relay.logs.at(-1)?.caller, 'user:user-a');
+    } finally {
+      await close(relay.server);
+    }
+  });
+
+  it('rejects requests without a verified access token', async () => {
+    const relay = await startRelay(upstreamUrl, { verifyToken });
+    try {
+      assert.equal((await relay.requestToken()).status, 401);
+      assert.equal((await relay.requestToken('forged')).status, 401);
+      assert.equal(relay.logs.at(-1)?.caller, null);
+    } finally {
+      await close(relay.server);
+    }
+  });
+
+  it('rate-limits per verified user, whichever token they present', async () => {
+    const relay = await startRelay(upstreamUrl, { verifyToken });
+    try {
+      assert.equal((await relay.requestToken('token-a1')).status, 200);
+      assert.equal((await relay.requestToken('token-a2')).status, 200);
+      const limited = await relay.requestToken('token-a1');
+      assert.equal(limited.status, 429);
+      assert.ok(limited.body.retryAfterSeconds > 0);
+      assert.equal((await relay.requestToken('token-a2')).status, 429);
+      assert.equal((await relay.requestToken('token-b')).status, 200);
+    } finally {
+      await close(relay.server);
+    }
+  });
+
+  it('budgets audition tokens apart from session tokens', async () => {
+    const relay = await startRelay(upstreamUrl, { verifyToken });
+    try {
+      assert.equal((await relay.requestToken('token-a1')).status, 200);
+      assert.equal((await relay.requestToken('token-a1')).status, 200);
+      const audition = await relay.requestToken('token-a1', 'audition');
+      assert.equal(audition.status, 200);
+      const issued = upstream.issued.at(-1) as { request: any };
+      assert.ok(Date.parse(issued.request.expireTime) - Date.now() <= 60_000);
+      const limited = await relay.requestToken('token-a1', 'audition');
+      assert.equal(limited.status, 429);
+      assert.match(limited.body.error, /voice samples/);
+    } finally {
+      await close(relay.server);
+    }
+  });
+
+  it('rate-limits per client address when it cannot verify users', async () => {
+    const relay = await startRelay(upstreamUrl);
+    try {
+      assert.equal((await relay.requestToken()).status, 200);
+      // Without a verifier a token proves nothing, so changing it doesn't reset the limit.
+      assert.equal((await relay.requestToken('token-b')).status, 200);
+      assert.equal((await relay.requestToken('anything')).status, 429);
+      assert.match(relay.logs.at(-1)?.caller ?? '', /^ip:/);
+    } finally {
+      await close(relay.server);
+    }
+  });
+
+  it('answers 503 when the identity provider cannot be reached', async () => {
+    const relay = await startRelay(upstreamUrl, { verifyToken: async () => { throw new Error('userinfo down'); } });
+    try {
+      assert.equal((await relay.requestToken('token-a1')).status, 503);
+      assert.equal(relay.logs.at(-1)?.error, 'userinfo down');
+    } finally {
+      await close(relay.server);
+    }
+  });
+
+  it('passes the upstream reason through for an invalid API key', async () => {
+    const relay = await startRelay(upstreamUrl, { verifyToken, apiKey: 'wrong-key' });
+    try {
+      const { status, body } = await relay.requestToken('token-a1');
+      assert.equal(status, 502);
+      assert.equal(body.upstreamStatus, 400);
+      assert.equal(body.upstreamReason, 'API_KEY_INVALID');
+    } finally {
+      await close(relay.server);
+    }
+  });
+
+  it('passes the upstream status through when Gemini refuses', async () => {
+    const failing = createFakeUpstream({ apiKey: API_KEY, failWith: 503 });
+    const relay = await startRelay(await listen(failing), { verifyToken });
+    try {
+      const { status, body } = await relay.requestToken('token-a1');
+      assert.equal(status, 502);
+      assert.equal(body.upstreamStatus, 503);
+      assert.equal(body.upstreamReason, 'UNAVAILABLE');
+    } finally {
+      await close(relay.server);
+      await close(failing);
+    }
+  });
+});
+
+describe('createUserInfoVerifier', () => {
+  const userInfo = http.createServer((req, res) => {
+    const ok = req.headers.authorization === 'Bearer good';
+    res.writeHead(ok ? 200 : 401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(ok ? { sub: '1234', email: 'a@b.c' } : { error: 'invalid_token' }));
+  });
+  let verify: TokenVerifier;
+
+  before(async () => {
+    verify = createUserInfoVerifier(`${await listen(userInfo)}/userinfo`);
+  });
+
+  after(() => close(userInfo));
+
+  it('accepts tokens the provider answers for', async () => {
+    assert.deepEqual(await verify('good'), { subject: '1234', email: 'a@b.c' });
+  });
+
+  it('rejects tokens the provider refuses', async () => {
+    assert.equal(await verify('bad'), null);
+  });
+});
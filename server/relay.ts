@@ -0,0 +1,189 @@
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { RateLimiter } from './rateLimiter';
+import { bearerToken, TokenVerifier } from './auth';
+
+export interface RelayOptions {
+  apiKey: string;
+  /** Live model the issued tokens are restricted to. */
+  model: string;
+  /** Overrides the Gemini API base URL, e.g. to point at `fakeUpstream.ts`. */
+  upstreamUrl?: string;
+  /** Token requests allowed per caller per minute. */
+  tokensPerMinute: number;
+  /** Audition token requests allowed per caller per minute, on top of `tokensPerMinute`. */
+  auditionsPerMinute: number;
+  /** How long a token stays usable for new sessions. */
+  newSessionWindowMs: number;
+  /** How long a session opened with a token may run. */
+  sessionLifetimeMs: number;
+  /** Origin allowed to call the relay cross-origin; same-origin only when unset. */
+  allowedOrigin?: string;
+  /**
+   * Checks the bearer token sent with each request. Without one the relay
+   * can't tell users apart, so it serves anyone and rate-limits per client
+   * address instead; that is only suitable for local development.
+   */
+  verifyToken?: TokenVerifier;
+  log?: (entry: RelayLogEntry) => void;
+}
+
+export interface RelayLogEntry {
+  time: string;
+  method: string;
+  path: string;
+  /** The rate-limit key: `user:<subject>` when verified, else `ip:<address>`. */
+  caller: string | null;
+  status: number;
+  durationMs: number;
+  error?: string;
+}
+
+/** What a token is for: a translation session, or a short voice sample for the voice picker. */
+export type LiveTokenPurpose = 'session' | 'audition';
+
+export interface LiveTokenResponse {
+  token: string;
+  /** ISO time after which the token can no longer open a session. */
+  expiresAt: string;
+}
+
+const defaultLog = (entry: RelayLogEntry) => console.log(JSON.stringify(entry));
+
+// A voice sample is one sentence, so audition tokens can't stand in for session ones for long.
+const AUDITION_LIFETIME_MS = 60_000;
+
+/**
+ * The reason Google attached to an upstream error, such as `API_KEY_INVALID`,
+ * falling back to its status name. The SDK carries the error body as JSON in
+ * the message.
+ */
+function upstreamReason(err: any): string | null {
+  try {
+    const body = JSON.parse(err?.message ?? '');
+    const info = (body?.error?.details ?? []).find((detail: any) => typeof detail?.reason === 'string');
+    return info?.reason ?? (typeof body?.error?.status === 'string' ? body.error.status : null);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * HTTP server that keeps the Gemini API key on the server and hands the
+ * browser single-use ephemeral tokens for the Live API instead.
+ *
+ * `POST /api/live-token` issues a token to the user whose access token is
+ * sent as `Authorization: Bearer`, subject to a per-user rate limit.
+ * `?purpose=audition` asks for a short-lived token from a separate budget,
+ * so sampling voices doesn't use up the tokens sessions reconnect with.
+ * `GET /healthz` reports liveness.
+ */
+export function createRelayServer(options: RelayOptions): http.Server {
+  const log = options.log ?? defaultLog;
+  const limiters: Record<LiveTokenPurpose, RateLimiter> = {
+    session: new RateLimiter(options.tokensPerMinute, 60_000),
+    audition: new RateLimiter(options.auditionsPerMinute, 60_000),
+  };
+  const ai = new GoogleGenAI({
+    apiKey: options.apiKey,
+    httpOptions: { apiVersion: 'v1alpha', ...(options.upstreamUrl ? { baseUrl: options.upstreamUrl } : {}) },
+  });
+
+  const issueToken = async (purpose: LiveTokenPurpose): Promise<LiveTokenResponse> => {
+    const now = Date.now();
+    const expiresAt = new Date(now + options.newSessionWindowMs).toISOString();
+    const lifetimeMs = purpose === 'audition' ? AUDITION_LIFETIME_MS : options.sessionLifetimeMs;
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        newSessionExpireTime: expiresAt,
+        expireTime: new Date(now + lifetimeMs).toISOString(),
+        liveConnectConstraints: { model: options.model },
+      },
+    });
+    if (!token.name) throw new Error('Upstream returned a token without a name.');
+    return { token: token.name, expiresAt };
+  };
+
+  // Who is asking, as a rate-limit key; null when a token is required and missing or rejected.
+  const identify = async (req: http.IncomingMessage): Promise<string | null> => {
+    if (!options.verifyToken) return `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+    const token = bearerToken(req);
+    const verified = token ? await options.verifyToken(token) : null;
+    return verified ? `user:${verified.subject}` : null;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const started = Date.now();
+    const url = new URL(req.url ?? '/', 'http://relay');
+    const path = url.pathname;
+    let caller: string | null = null;
+    let error: string | undefined;
+
+    const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    if (options.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', options.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.setHeader('Vary', 'Origin');
+    }
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+      } else if (path === '/healthz' && req.method === 'GET') {
+        send(200, { ok: true });
+      } else if (path === '/api/live-token' && req.method === 'POST') {
+        try {
+          caller = await identify(req);
+        } catch (err: any) {
+          error = err?.message ?? String(err);
+          send(503, { error: 'Could not verify your sign-in. Try again shortly.' });
+          return;
+        }
+        if (!caller) {
+          send(401, { error: 'Sign in to start a session.' }, { 'WWW-Authenticate': 'Bearer' });
+        } else {
+          const purpose: LiveTokenPurpose = url.searchParams.get('purpose') === 'audition' ? 'audition' : 'session';
+          const limit = limiters[purpose].hit(caller);
+          if (!limit.allowed) {
+            const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+            const message = purpose === 'audition' ? 'Too many voice samples requested.' : 'Too many sessions started.';
+            send(429, { error: message, retryAfterSeconds: retryAfter }, { 'Retry-After': String(retryAfter) });
+          } else {
+            send(200, await issueToken(purpose));
+          }
+        }
+      } else {
+        send(404, { error: 'Not found.' });
+      }
+    } catch (err: any) {
+      error = err?.message ?? String(err);
+      // Pass the upstream status and reason through so the client can tell a bad key from an outage;
+      // Gemini reports an invalid key as a 400, so the status alone isn't enough.
+      send(502, {
+        error: 'Could not obtain a session token from Gemini.',
+        upstreamStatus: typeof err?.status === 'number' ? err.status : null,
+        upstreamReason: upstreamReason(err),
+      });
+    } finally {
+      log({
+        time: new Date(started).toISOString(),
+        method: req.method ?? '',
+        path,
+        caller,
+        status: res.statusCode,
+        durationMs: Date.now() - started,
+        ...(error ? { error } : {}),
+      });
+    }
+  });
+
+  const pruneTimer = setInterval(() => Object.values(limiters).forEach(limiter => limiter.prune()), 60_000);
+  pruneTimer.unref();
+  server.on('close', () => clearInterval(pruneTimer));
+  return server;
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AppErrorKind, ErrorStage } from '../types';
+import { classifyError, HttpStatusError, isRetryableSessionError, RELAY_RATE_LIMITED, relayRetryAfterMs } from './appErrors';
+
+const CASES: { name: string; error: unknown; stage: ErrorStage; kind: AppErrorKind }[] = [
+  { name: 'a 400 rejecting the key', error: new HttpStatusError('API key not valid.', 400, 'API_KEY_INVALID'), stage: 'relay', kind: 'auth-invalid' },
+  { name: 'an API_KEY_INVALID reason whatever the message', error: new HttpStatusError('Bad request', 400, 'API_KEY_INVALID'), stage: 'relay', kind: 'auth-invalid' },
+  { name: 'a 401', error: new HttpStatusError('Sign in again', 401), stage: 'relay', kind: 'auth-invalid' },
+  { name: 'a 403', error: new HttpStatusError('Forbidden', 403), stage: 'relay', kind: 'auth-invalid' },
+  { name: 'a socket error about the key', error: new Error('API key not valid. Please pass a valid API key.'), stage: 'session', kind: 'auth-invalid' },
+  { name: 'the relay rate limit', error: new HttpStatusError('Too many sessions started.', 429, RELAY_RATE_LIMITED, 5), stage: 'relay', kind: 'quota-exceeded' },
+  { name: 'a bare 429', error: new HttpStatusError('Slow down', 429), stage: 'relay', kind: 'quota-exceeded' },
+  { name: 'a RESOURCE_EXHAUSTED reason', error: new HttpStatusError('Bad request', 400, 'RESOURCE_EXHAUSTED'), stage: 'relay', kind: 'quota-exceeded' },
+  { name: 'a close for exceeded quota', error: { code: 1011, reason: 'You exceeded your current quota' }, stage: 'session', kind: 'quota-exceeded' },
+  { name: 'a 404', error: new HttpStatusError('Not found', 404), stage: 'relay', kind: 'model-unavailable' },
+  { name: 'an unsupported model', error: new Error('models/gemini-live is not supported for bidiGenerateContent'), stage: 'session', kind: 'model-unavailable' },
+  { name: 'a failed fetch', error: new TypeError('Failed to fetch'), stage: 'relay', kind: 'network' },
+  { name: 'an abnormal close', error: { code: 1006, reason: '' }, stage: 'session', kind: 'network' },
+  { name: 'a timeout', error: new Error('Connection timed out'), stage: 'session', kind: 'network' },
+  { name: 'an internal error close', error: { code: 1011, reason: 'Internal error' }, stage: 'session', kind: 'unknown' },
+  { name: 'anything else', error: new Error('boom'), stage: 'session', kind: 'unknown' },
+  { name: 'a failed playback', error: new DOMException('play() failed', 'NotAllowedError'), stage: 'audio', kind: 'audio-unavailable' },
+  { name: 'an undecodable file', error: new DOMException('Unable to decode audio data', 'EncodingError'), stage: 'file', kind: 'file-unreadable' },
+  { name: 'a full storage quota', error: new DOMException('Quota exceeded', 'QuotaExceededError'), stage: 'storage', kind: 'storage-unavailable' },
+];
+
+describe('classifyError', () => {
+  for (const { name, error, stage, kind } of CASES) {
+    it(`classifies ${name} as ${kind}`, () => {
+      assert.equal(classifyError(error, stage).kind, kind);
+    });
+  }
+
+  it('keeps the stage, recoverability and a technical detail', () => {
+    const error = classifyError(new HttpStatusError('Bad request', 400, 'API_KEY_INVALID'), 'relay', true);
+    assert.equal(error.stage, 'relay');
+    assert.equal(error.recoverable, true);
+    assert.equal(error.detail, 'HttpStatusError 400 API_KEY_INVALID: Bad request');
+    assert.equal(error.message, 'The translation service rejected our credentials.');
+    assert.deepEqual(error.actions, []);
+  });
+});
+
+describe('relayRetryAfterMs', () => {
+  it('is how long the relay asked to wait, only for its own rate limit', () => {
+    assert.equal(relayRetryAfterMs(new HttpStatusError('Too many sessions started.', 429, RELAY_RATE_LIMITED, 5)), 5000);
+    assert.equal(relayRetryAfterMs(new HttpStatusError('Too many sessions started.', 429, RELAY_RATE_LIMITED)), 60_000);
+    assert.equal(relayRetryAfterMs(new HttpStatusError('Quota exceeded', 429, 'RESOURCE_EXHAUSTED', 5)), null);
+    assert.equal(relayRetryAfterMs(new Error('Too many sessions started.')), null);
+  });
+});
+
+describe('isRetryableSessionError', () => {
+  it('gives up on credentials, quota and model errors but not on drops', () => {
+    assert.deepEqual(
+      (['auth-invalid', 'quota-exceeded', 'model-unavailable', 'network', 'unknown'] as AppErrorKind[]).map(isRetryableSessionError),
+      [false, false, false, true, true],
+    );
+  });
+});
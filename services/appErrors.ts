@@ -0,0 +1,114 @@
+import { AppError, AppErrorKind, ErrorStage, RecoveryAction } from '../types';
+
+/** An HTTP failure whose status code, and Google error reason if any, matter for classification. */
+export class HttpStatusError extends Error {
+  constructor(message: string, readonly status: number, readonly reason?: string, readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/** Reason given to the relay's own rate limit, as opposed to a Gemini quota. */
+export const RELAY_RATE_LIMITED = 'RELAY_RATE_LIMITED';
+
+const ERROR_INFO: Record<AppErrorKind, { message: string; actions: RecoveryAction[] }> = {
+  'mic-permission-denied': { message: 'Microphone access is blocked for this site.', actions: ['permissions-help', 'retry'] },
+  'mic-not-found': { message: 'No microphone was found.', actions: ['choose-device', 'retry'] },
+  'mic-in-use': { message: 'The microphone is in use by another app or could not be started.', actions: ['choose-device', 'retry'] },
+  'insecure-context': { message: 'The microphone only works over HTTPS or on localhost.', actions: [] },
+  'audio-unavailable': { message: 'This browser could not start audio playback.', actions: ['retry'] },
+  'auth-invalid': { message: 'The translation service rejected our credentials.', actions: [] },
+  'quota-exceeded': { message: 'Usage limit reached. Wait a minute before starting another session.', actions: ['retry'] },
+  'model-unavailable': { message: 'The voice translation model is unavailable right now.', actions: ['retry'] },
+  'network': { message: 'Could not reach the translation service. Check your connection.', actions: ['retry'] },
+  'connection-lost': { message: 'Connection lost and could not be restored.', actions: ['retry'] },
+  'file-unreadable': { message: 'That file could not be decoded as audio.', actions: [] },
+  'storage-unavailable': { message: "Your changes couldn't be saved in this browser, most likely because its storage is full. They'll be lost on reload.", actions: [] },
+  'unknown': { message: 'Something went wrong.', actions: ['retry'] },
+};
+
+/** Kinds that retrying the same connection won't fix, so reconnecting is pointless. */
+const FATAL_SESSION_KINDS = new Set<AppErrorKind>(['auth-invalid', 'quota-exceeded', 'model-unavailable']);
+
+// Google error reasons and status names that mean the key or caller was refused, whatever the HTTP status.
+const AUTH_REASONS = new Set(['API_KEY_INVALID', 'API_KEY_EXPIRED', 'UNAUTHENTICATED', 'PERMISSION_DENIED']);
+
+export const isRetryableSessionError = (kind: AppErrorKind) => !FATAL_SESSION_KINDS.has(kind);
+
+/** How long the relay asked to be left alone, when `error` is it turning away a token request; else null. */
+export const relayRetryAfterMs = (error: unknown): number | null =>
+  error instanceof HttpStatusError && error.reason === RELAY_RATE_LIMITED ? (error.retryAfterSeconds ?? 60) * 1000 : null;
+
+/** One-line technical description of anything thrown or emitted as an error. */
+export function describeError(error: unknown): string {
+  if (error instanceof HttpStatusError) return `${error.name} ${error.status}${error.reason ? ` ${error.reason}` : ''}: ${error.message}`;
+  if (error instanceof Error) return `${error.name}: ${error.message}`;
+  if (error && typeof error === 'object') {
+    const e = error as { code?: number; reason?: string; message?: string; type?: string };
+    if (typeof e.code === 'number') return `Close ${e.code}${e.reason ? `: ${e.reason}` : ''}`;
+    if (e.message) return `${e.type ?? 'Error'}: ${e.message}`;
+    if (e.type) return `Event: ${e.type}`;
+  }
+  return String(error);
+}
+
+function classifyKind(error: unknown, stage: ErrorStage): AppErrorKind {
+  const name = error instanceof Error ? error.name : '';
+  const status = error instanceof HttpStatusError ? error.status : (error as { status?: number })?.status;
+  const reason = error instanceof HttpStatusError ? error.reason : undefined;
+  const closeCode = (error as { code?: unknown })?.code;
+  const text = describeError(error);
+
+  if (stage === 'file') return 'file-unreadable';
+  if (stage === 'storage') return 'storage-unavailable';
+  if (stage === 'microphone') {
+    if (!window.isSecureContext || !navigator.mediaDevices) return 'insecure-context';
+    if (name === 'NotAllowedError' || name === 'SecurityError') return 'mic-permission-denied';
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'mic-not-found';
+    if (name === 'NotReadableError' || name === 'AbortError') return 'mic-in-use';
+  }
+  if (stage === 'audio') return 'audio-unavailable';
+
+  if (status === 401 || status === 403 || (reason && AUTH_REASONS.has(reason)) || /api key|unauthenticated|permission denied|invalid.*(key|token)/i.test(text)) return 'auth-invalid';
+  if (status === 429 || reason === 'RESOURCE_EXHAUSTED' || /quota|resource.?exhausted|rate.?limit|too many/i.test(text)) return 'quota-exceeded';
+  if (status === 404 || /model.*(not found|not supported|unavailable)|not found.*model/i.test(text)) return 'model-unavailable';
+  if (
+    name === 'TypeError' && /fetch/i.test(text) ||
+    closeCode === 1006 ||
+    /network|timed? ?out|could not reach|offline|ECONN/i.test(text)
+  ) return 'network';
+  return 'unknown';
+}
+
+/** Turns whatever failed into an `AppError` with a message and recovery actions. */
+export function classifyError(error: unknown, stage: ErrorStage, recoverable = false): AppError {
+  const kind = classifyKind(error, stage);
+  return { kind, stage, recoverable, detail: describeError(error), occurredAt: Date.now(), ...ERROR_INFO[kind] };
+}
+
+/** The error for a session that dropped and stayed down through every reconnect attempt. */
+export const connectionLostError = (lastError: unknown): AppError => ({
+  kind: 'connection-lost',
+  stage: 'session',
+  recoverable: false,
+  detail: describeError(lastError),
+  occurredAt: Date.now(),
+  ...ERROR_INFO['connection-lost'],
+});
+
+/** Plain-text report for support tickets: the error plus the environment it happened in. */
+export function diagnosticsReport(error: AppError, context: Record<string, string | number | boolean | null>): string {
+  const lines = [
+    'Polyglot diagnostics',
+    `Time: ${new Date(error.occurredAt).toISOString()}`,
+    `Error: ${error.kind} (${error.stage})`,
+    `Message: ${error.message}`,
+    `Detail: ${error.detail}`,
+    ...Object.entries(context).map(([key, value]) => `${key}: ${value ?? 'n/a'}`),
+    `Secure context: ${window.isSecureContext}`,
+    `Media devices API: ${!!navigator.mediaDevices}`,
+    `Online: ${navigator.onLine}`,
+    `User agent: ${navigator.userAgent}`,
+  ];
+  return lines.join('\n');
+}
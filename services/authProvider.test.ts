@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { build, Rollup } from 'vite';
+
+const CLIENT_ID = 'bundle-check.apps.example.com';
+const AUTHORIZE_URL = 'https://id.example.com/authorize';
+
+describe('createAuthProvider in a production build', () => {
+  it('keeps the configured OAuth settings', { timeout: 300_000 }, async () => {
+    // The Vite config reads the build environment from process.env as well as .env files.
+    Object.assign(process.env, { OAUTH_CLIENT_ID: CLIENT_ID, OAUTH_AUTHORIZE_URL: AUTHORIZE_URL });
+    try {
+      // Built as a library entry through the app's own Vite config, so its `define`s apply as in the app bundle.
+      const result = await build({
+        mode: 'production',
+        logLevel: 'silent',
+        build: { write: false, minify: false, lib: { entry: 'services/authProvider.ts', formats: ['es'] } },
+      });
+      const outputs = (Array.isArray(result) ? result : [result as Rollup.RollupOutput]).flatMap(r => r.output);
+      const code = outputs.map(chunk => (chunk.type === 'chunk' ? chunk.code : '')).join('\n');
+      assert.ok(code.includes(CLIENT_ID), 'the client id is compiled into the bundle');
+      assert.ok(code.includes(AUTHORIZE_URL), 'the authorize URL is compiled into the bundle');
+    } finally {
+      delete process.env.OAUTH_CLIENT_ID;
+      delete process.env.OAUTH_AUTHORIZE_URL;
+    }
+  });
+});
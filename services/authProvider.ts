@@ -0,0 +1,63 @@
+import { AuthSession, UserProfile } from '../types';
+import { createDevAuthProvider } from './devAuthProvider';
+import { createOAuthProvider } from './oauthProvider';
+
+/** A source of signed-in users. */
+export interface AuthProvider {
+  readonly id: string;
+  /** Shown on the sign-in button. */
+  readonly label: string;
+  /** Accounts to choose from, for providers that sign in without leaving the page. */
+  readonly accounts?: UserProfile[];
+  /**
+   * Starts sign-in. Redirect-based providers navigate away and resolve with
+   * null; the session arrives later through `completeSignIn`.
+   */
+  signIn(accountId?: string): Promise<AuthSession | null>;
+  /** Finishes a redirect sign-in when `url` is the provider's callback; null otherwise. */
+  completeSignIn(url: URL): Promise<AuthSession | null>;
+  refresh(session: AuthSession): Promise<AuthSession>;
+  /** Invalidates the session's tokens with the provider. */
+  revoke(session: AuthSession): Promise<void>;
+}
+
+const SESSION_KEY = 'polyglot:auth';
+// Refresh this long before the access token actually expires.
+const REFRESH_MARGIN_MS = 60_000;
+
+export function loadAuthSession(): AuthSession | null {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+}
+
+export function saveAuthSession(session: AuthSession | null): void {
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+}
+
+/** Milliseconds until `session` should be refreshed; zero or less means now. */
+export const msUntilRefresh = (session: AuthSession, now = Date.now()) => session.expiresAt - REFRESH_MARGIN_MS - now;
+
+/**
+ * Picks the provider from the build environment: OAuth when a client id is
+ * configured, otherwise the local development provider.
+ */
+export function createAuthProvider(): AuthProvider {
+  // Each setting is read as a literal `process.env.X`: that is the expression Vite's `define` replaces at build time.
+  const clientId = process.env.OAUTH_CLIENT_ID;
+  if (process.env.AUTH_PROVIDER !== 'dev' && clientId) {
+    return createOAuthProvider({
+      clientId,
+      authorizeUrl: process.env.OAUTH_AUTHORIZE_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenUrl: process.env.OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+      userInfoUrl: process.env.OAUTH_USERINFO_URL || 'https://openidconnect.googleapis.com/v1/userinfo',
+      revokeUrl: process.env.OAUTH_REVOKE_URL || 'https://oauth2.googleapis.com/revoke',
+      scopes: (process.env.OAUTH_SCOPES || 'openid email profile').split(/\s+/),
+      redirectUri: `${window.location.origin}/`,
+    });
+  }
+  return createDevAuthProvider();
+}
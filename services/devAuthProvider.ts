@@ -0,0 +1,42 @@
+import { AuthSession, UserProfile } from '../types';
+import type { AuthProvider } from './authProvider';
+
+const DEV_ACCOUNTS: UserProfile[] = [
+  { id: 'dev-alex', name: 'Alex Thompson', email: 'alex.thompson@gmail.com', avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Alex' },
+  { id: 'dev-workspace', name: 'Developer User', email: 'dev.workspace@gmail.com', avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Dev' },
+  { id: 'dev-guest', name: 'Guest Translator', email: 'guest.access@gmail.com', avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=Guest' },
+];
+
+const TOKEN_LIFETIME_MS = 60 * 60_000;
+
+const issue = (user: UserProfile): AuthSession => ({
+  provider: 'dev',
+  user,
+  accessToken: `dev:${crypto.randomUUID()}`,
+  refreshToken: `dev-refresh:${crypto.randomUUID()}`,
+  expiresAt: Date.now() + TOKEN_LIFETIME_MS,
+});
+
+/**
+ * Offline stand-in for a real identity provider: pick one of a few local
+ * accounts. Sessions persist and refresh like real ones, but prove nothing.
+ */
+export function createDevAuthProvider(accounts = DEV_ACCOUNTS): AuthProvider {
+  return {
+    id: 'dev',
+    label: 'Sign in with a local account',
+    accounts,
+    async signIn(accountId) {
+      const user = accounts.find(a => a.id === accountId);
+      if (!user) throw new Error('Unknown local account.');
+      return issue(user);
+    },
+    async completeSignIn() {
+      return null;
+    },
+    async refresh(session) {
+      return issue(session.user);
+    },
+    async revoke() {},
+  };
+}
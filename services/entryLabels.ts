@@ -0,0 +1,10 @@
+import { HistoryEntry } from '../types';
+
+/** Who said an entry and in which language, e.g. "Speaker A · Hindi" or "Polyglot · Telugu". */
+export function entryLabel(entry: HistoryEntry): string {
+  if (entry.role === 'user') {
+    const who = entry.speaker ? `Speaker ${entry.speaker}` : 'You';
+    return entry.sourceLanguage ? `${who} · ${entry.sourceLanguage}` : who;
+  }
+  return entry.targetLanguage ? `Polyglot · ${entry.targetLanguage}` : 'Polyglot';
+}
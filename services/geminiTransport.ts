@@ -0,0 +1,31 @@
+import { GoogleGenAI } from '@google/genai';
+import { LiveConnectOptions, LiveSession, LiveTransport } from './liveTransport';
+
+/**
+ * Live transport backed by the Gemini Live API. Each connection authenticates
+ * with a fresh ephemeral token from `getToken`, so no long-lived key is needed.
+ */
+export function createGeminiTransport(getToken: () => Promise<string>): LiveTransport {
+  return {
+    name: 'gemini',
+    async connect({ model, config, callbacks }: LiveConnectOptions): Promise<LiveSession> {
+      // Ephemeral tokens are only accepted on the v1alpha API.
+      const ai = new GoogleGenAI({ apiKey: await getToken(), httpOptions: { apiVersion: 'v1alpha' } });
+      const session = await ai.live.connect({
+        model,
+        config,
+        callbacks: {
+          onopen: () => callbacks.onopen?.(),
+          onmessage: (message) => callbacks.onmessage(message),
+          onerror: (e) => callbacks.onerror?.(e),
+          onclose: (e) => callbacks.onclose?.(e),
+        },
+      });
+      return {
+        sendRealtimeInput: (input) => session.sendRealtimeInput(input),
+        sendToolResponse: (functionResponses) => session.sendToolResponse({ functionResponses }),
+        close: () => session.close(),
+      };
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Glossary } from '../types';
+import { checkGlossary, createTerm, glossaryFromCsv, glossaryToCsv } from './glossary';
+
+const termsOf = (glossary: Glossary) =>
+  glossary.terms.map(({ source, translations, doNotTranslate }) => ({ source, translations, doNotTranslate }));
+
+describe('glossaryFromCsv', () => {
+  it('reads quoted fields, language codes and the do-not-translate flag', () => {
+    const glossary = glossaryFromCsv('Clinic', [
+      'Source,do_not_translate,hi,French',
+      '"blood pressure",,रक्तचाप,"tension ""artérielle"""',
+      '"Acme, Inc.",Yes,,',
+      '"follow-up',
+      'visit",no,,visite de suivi',
+    ].join('\r\n'));
+
+    assert.equal(glossary.name, 'Clinic');
+    assert.deepEqual(termsOf(glossary), [
+      { source: 'blood pressure', translations: { Hindi: 'रक्तचाप', French: 'tension "artérielle"' }, doNotTranslate: false },
+      { source: 'Acme, Inc.', translations: {}, doNotTranslate: true },
+      { source: 'follow-up\r\nvisit', translations: { French: 'visite de suivi' }, doNotTranslate: false },
+    ]);
+  });
+
+  it('skips blank lines and rows without a source, and tolerates short rows', () => {
+    const glossary = glossaryFromCsv('Clinic', 'source,Spanish,German\n\n,receta,\n  ,,\nward\n\nnurse,enfermera\n');
+    assert.deepEqual(termsOf(glossary), [
+      { source: 'ward', translations: {}, doNotTranslate: false },
+      { source: 'nurse', translations: { Spanish: 'enfermera' }, doNotTranslate: false },
+    ]);
+  });
+
+  it('rejects a file whose first column is not the source', () => {
+    assert.throws(() => glossaryFromCsv('Clinic', 'term,Spanish\nnurse,enfermera\n'), /must start with a "source" column/);
+    assert.throws(() => glossaryFromCsv('Clinic', ''), /must start with a "source" column/);
+  });
+
+  it('reads back what it exported', () => {
+    const glossary = glossaryFromCsv('Clinic', 'source,do_not_translate,Hindi\n"dose, daily",,दैनिक खुराक\nAcme,x,\n');
+    assert.deepEqual(termsOf(glossaryFromCsv('Clinic', glossaryToCsv(glossary))), termsOf(glossary));
+  });
+});
+
+describe('checkGlossary', () => {
+  const glossary: Glossary = {
+    id: 'glossary-1',
+    name: 'Clinic',
+    terms: [
+      { ...createTerm('blood pressure'), translations: { Hindi: 'रक्तचाप', Japanese: '血圧' } },
+      { ...createTerm('Acme'), doNotTranslate: true },
+      { ...createTerm('ward'), translations: { Spanish: 'sala' } },
+    ],
+  };
+
+  it('accepts a translation that uses the preferred terms', () => {
+    assert.deepEqual(checkGlossary(glossary, 'Check his Blood Pressure at Acme.', 'Acme पर उसका रक्तचाप जाँचें।', 'Hindi'), []);
+  });
+
+  it('reports a missing preferred term and a translated protected one', () => {
+    assert.deepEqual(checkGlossary(glossary, 'Check his blood pressure at Acme.', 'एक्मे पर उसका बीपी जाँचें।', 'Hindi'), [
+      { term: 'blood pressure', expected: 'रक्तचाप', kind: 'missing-preferred' },
+      { term: 'Acme', expected: 'Acme', kind: 'translated-protected' },
+    ]);
+  });
+
+  it('matches whole words only in spaced scripts', () => {
+    // "awkward" contains "ward" but doesn't use the term.
+    assert.deepEqual(checkGlossary(glossary, 'An awkward moment.', 'Un momento incómodo.', 'Spanish'), []);
+    assert.deepEqual(checkGlossary(glossary, 'Go to the ward.', 'Ve a la salida.', 'Spanish'), [
+      { term: 'ward', expected: 'sala', kind: 'missing-preferred' },
+    ]);
+  });
+
+  it('finds terms inside unspaced scripts', () => {
+    assert.deepEqual(checkGlossary(glossary, 'Take her blood pressure.', '彼女の血圧を測ってください。', 'Japanese'), []);
+  });
+
+  it('ignores terms with no preference for the target language', () => {
+    assert.deepEqual(checkGlossary(glossary, 'Check the blood pressure.', 'Vérifiez la tension.', 'French'), []);
+  });
+});
@@ -0,0 +1,132 @@
+import { Glossary, GlossaryTerm, GlossaryViolation } from '../types';
+import { parseCsv, toCsvRow } from './csv';
+import { findLanguage, UNSPACED_SCRIPT } from './languageCatalog';
+
+const storageKey = (profileId: string) => `polyglot:glossaries:${profileId}`;
+
+export function loadGlossaries(profileId: string): Glossary[] {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(profileId)) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveGlossaries(profileId: string, glossaries: Glossary[]): void {
+  localStorage.setItem(storageKey(profileId), JSON.stringify(glossaries));
+}
+
+export const createGlossary = (name: string): Glossary => ({ id: crypto.randomUUID(), name, terms: [] });
+
+export const createTerm = (source = ''): GlossaryTerm => ({
+  id: crypto.randomUUID(),
+  source,
+  translations: {},
+  doNotTranslate: false,
+});
+
+/** Every target language that has at least one preferred translation. */
+export const glossaryLanguages = (glossary: Glossary): string[] =>
+  [...new Set(glossary.terms.flatMap(t => Object.keys(t.translations)))].sort();
+
+const DNT_COLUMN = 'do_not_translate';
+
+/** One row per term: `source,do_not_translate,<Language>,...`. */
+export function glossaryToCsv(glossary: Glossary): string {
+  const languages = glossaryLanguages(glossary);
+  const rows = glossary.terms.map(term => toCsvRow([
+    term.source,
+    term.doNotTranslate ? 'yes' : '',
+    ...languages.map(language => term.translations[language] ?? ''),
+  ]));
+  return [toCsvRow(['source', DNT_COLUMN, ...languages]), ...rows].join('\r\n') + '\r\n';
+}
+
+const TRUTHY = new Set(['yes', 'y', 'true', '1', 'x']);
+
+/** Parses a CSV in the `glossaryToCsv` layout; language columns may be names or codes. */
+export function glossaryFromCsv(name: string, text: string): Glossary {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || header[0]?.trim().toLowerCase() !== 'source') {
+    throw new Error('Glossary CSV must start with a "source" column.');
+  }
+  const columns = header.map(h => h.trim());
+  const dntIndex = columns.findIndex(c => c.toLowerCase() === DNT_COLUMN);
+  const languageColumns = columns
+    .map((column, index) => ({ index, language: findLanguage(column)?.name ?? column }))
+    .filter(({ index }) => index !== 0 && index !== dntIndex);
+
+  const terms = rows
+    .filter(row => row[0]?.trim())
+    .map((row): GlossaryTerm => {
+      const translations: Record<string, string> = {};
+      languageColumns.forEach(({ index, language }) => {
+        const value = row[index]?.trim();
+        if (value) translations[language] = value;
+      });
+      return {
+        id: crypto.randomUUID(),
+        source: row[0].trim(),
+        translations,
+        doNotTranslate: dntIndex >= 0 && TRUTHY.has((row[dntIndex] ?? '').trim().toLowerCase()),
+      };
+    });
+  return { ...createGlossary(name), terms };
+}
+
+/** Appended to the system instruction so the model knows the required terminology. */
+export function glossaryInstruction(glossary: Glossary): string {
+  const lines = glossary.terms
+    .filter(term => term.source.trim())
+    .map(term => {
+      if (term.doNotTranslate) return `- "${term.source}": never translate; keep it exactly as "${term.source}" in every language.`;
+      const preferred = Object.entries(term.translations).map(([language, value]) => `${language}: "${value}"`);
+      return preferred.length > 0 ? `- "${term.source}": always use ${preferred.join(', ')}.` : null;
+    })
+    .filter((line): line is string => line !== null);
+  if (lines.length === 0) return '';
+  return `
+TERMINOLOGY (glossary "${glossary.name}"): these renderings are mandatory whenever the term occurs.
+${lines.join('\n')}
+`;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A letter or digit of a script that puts spaces between words.
+const WORD_CHAR = `(?:(?!${UNSPACED_SCRIPT.source})[\\p{L}\\p{M}\\p{N}])`;
+
+/**
+ * Whole-word match. Scripts written without spaces have no word boundaries
+ * to check, so an edge of the term in one of them may touch anything.
+ */
+function containsTerm(text: string, term: string): boolean {
+  const chars = Array.from(term.trim());
+  const start = UNSPACED_SCRIPT.test(chars[0]) ? '' : `(?<!${WORD_CHAR})`;
+  const end = UNSPACED_SCRIPT.test(chars[chars.length - 1]) ? '' : `(?!${WORD_CHAR})`;
+  return new RegExp(`${start}${escapeRegExp(chars.join(''))}${end}`, 'iu').test(text);
+}
+
+/** Checks one translation against the glossary for the terms its source phrase uses. */
+export function checkGlossary(
+  glossary: Glossary,
+  sourceText: string,
+  translation: string,
+  targetLanguage: string,
+): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+  for (const term of glossary.terms) {
+    if (!term.source.trim() || !containsTerm(sourceText, term.source)) continue;
+    if (term.doNotTranslate) {
+      if (!containsTerm(translation, term.source)) {
+        violations.push({ term: term.source, expected: term.source, kind: 'translated-protected' });
+      }
+      continue;
+    }
+    const preferred = term.translations[targetLanguage];
+    if (preferred && !containsTerm(translation, preferred)) {
+      violations.push({ term: term.source, expected: preferred, kind: 'missing-preferred' });
+    }
+  }
+  return violations;
+}
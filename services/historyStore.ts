@@ -0,0 +1,163 @@
+import { HistoryEntry, HistoryQuery } from '../types';
+
+const DB_NAME = 'polyglot-history';
+const DB_VERSION = 2;
+const ENTRIES = 'entries';
+// 16-bit mono PCM keyed by entry id, kept apart so history queries stay light.
+const AUDIO = 'audio';
+
+interface StoredAudio {
+  id: string;
+  sampleRate: number;
+  pcm: ArrayBuffer;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => {
+        const db = request.result;
+        if (e.oldVersion < 1) {
+          const store = db.createObjectStore(ENTRIES, { keyPath: 'id' });
+          store.createIndex('profileId', 'profileId');
+          store.createIndex('sessionId', 'sessionId');
+          store.createIndex('profileTime', ['profileId', 'timestamp']);
+        }
+        if (e.oldVersion < 2) {
+          db.createObjectStore(AUDIO, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export const createEntryId = (): string => crypto.randomUUID();
+
+export async function saveEntry(entry: HistoryEntry): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  tx.objectStore(ENTRIES).put(entry);
+  await transactionDone(tx);
+}
+
+/** Merges `patch` into a stored entry; returns the updated entry, or null if it's gone. */
+export async function updateEntry(id: string, patch: Partial<HistoryEntry>): Promise<HistoryEntry | null> {
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const existing: HistoryEntry | undefined = await promisify(store.get(id));
+  const updated = existing ? { ...existing, ...patch, id } : null;
+  if (updated) store.put(updated);
+  await transactionDone(tx);
+  return updated;
+}
+
+/** Saves an entry together with its PCM audio, filling in `entry.audio`. */
+export async function saveEntryWithAudio(entry: HistoryEntry, pcm: Uint8Array, sampleRate: number): Promise<HistoryEntry> {
+  const withAudio: HistoryEntry = {
+    ...entry,
+    audio: { sampleRate, durationMs: Math.round((pcm.byteLength / 2 / sampleRate) * 1000) },
+  };
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, AUDIO], 'readwrite');
+  tx.objectStore(ENTRIES).put(withAudio);
+  const stored: StoredAudio = { id: entry.id, sampleRate, pcm: pcm.slice().buffer };
+  tx.objectStore(AUDIO).put(stored);
+  await transactionDone(tx);
+  return withAudio;
+}
+
+export async function getEntryAudio(id: string): Promise<{ pcm: Uint8Array; sampleRate: number } | null> {
+  const db = await openDb();
+  const stored: StoredAudio | undefined = await promisify(db.transaction(AUDIO).objectStore(AUDIO).get(id));
+  return stored ? { pcm: new Uint8Array(stored.pcm), sampleRate: stored.sampleRate } : null;
+}
+
+export async function saveEntries(entries: HistoryEntry[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES, 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+}
+
+/** Every entry of one session, oldest first. */
+export async function getSessionEntries(sessionId: string): Promise<HistoryEntry[]> {
+  const db = await openDb();
+  const index = db.transaction(ENTRIES).objectStore(ENTRIES).index('sessionId');
+  const entries: HistoryEntry[] = await promisify(index.getAll(sessionId));
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+const normalize = (text: string) => text.toLocaleLowerCase().normalize('NFKC');
+
+/** Entries for a profile matching every given filter, oldest first. */
+export async function queryHistory({ profileId, text, language, from, to }: HistoryQuery): Promise<HistoryEntry[]> {
+  const db = await openDb();
+  const range = IDBKeyRange.bound(
+    [profileId, from ?? 0],
+    [profileId, to ?? Number.MAX_SAFE_INTEGER],
+  );
+  const index = db.transaction(ENTRIES).objectStore(ENTRIES).index('profileTime');
+  const entries: HistoryEntry[] = await promisify(index.getAll(range));
+
+  const terms = text ? normalize(text).split(/\s+/).filter(Boolean) : [];
+  return entries.filter(entry => {
+    if (language && entry.sourceLanguage !== language && entry.targetLanguage !== language) return false;
+    if (terms.length === 0) return true;
+    const haystack = normalize(entry.text);
+    return terms.every(term => haystack.includes(term));
+  });
+}
+
+/** Every language that appears as a source or target in a profile's history. */
+export async function listHistoryLanguages(profileId: string): Promise<string[]> {
+  const languages = new Set<string>();
+  for (const entry of await queryHistory({ profileId })) {
+    if (entry.sourceLanguage) languages.add(entry.sourceLanguage);
+    if (entry.targetLanguage) languages.add(entry.targetLanguage);
+  }
+  return [...languages].sort();
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, AUDIO], 'readwrite');
+  tx.objectStore(ENTRIES).delete(id);
+  tx.objectStore(AUDIO).delete(id);
+  await transactionDone(tx);
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([ENTRIES, AUDIO], 'readwrite');
+  const store = tx.objectStore(ENTRIES);
+  const keys = await promisify(store.index('sessionId').getAllKeys(sessionId));
+  keys.forEach(key => {
+    store.delete(key);
+    tx.objectStore(AUDIO).delete(key);
+  });
+  await transactionDone(tx);
+}
@@ -0,0 +1,114 @@
+import { Language } from '../types';
+
+/** Every language offered as a translation target, keyed by BCP-47 code. */
+export const LANGUAGE_CATALOG: Language[] = [
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو', script: 'Arab', direction: 'rtl' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు', script: 'Telu', direction: 'ltr' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', script: 'Deva', direction: 'ltr' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ', script: 'Knda', direction: 'ltr' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', script: 'Taml', direction: 'ltr' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം', script: 'Mlym', direction: 'ltr' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', script: 'Beng', direction: 'ltr' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', script: 'Deva', direction: 'ltr' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી', script: 'Gujr', direction: 'ltr' },
+  { code: 'pa', name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ', script: 'Guru', direction: 'ltr' },
+  { code: 'or', name: 'Odia', nativeName: 'ଓଡ଼ିଆ', script: 'Orya', direction: 'ltr' },
+  { code: 'as', name: 'Assamese', nativeName: 'অসমীয়া', script: 'Beng', direction: 'ltr' },
+  { code: 'ne', name: 'Nepali', nativeName: 'नेपाली', script: 'Deva', direction: 'ltr' },
+  { code: 'si', name: 'Sinhala', nativeName: 'සිංහල', script: 'Sinh', direction: 'ltr' },
+  { code: 'sd', name: 'Sindhi', nativeName: 'سنڌي', script: 'Arab', direction: 'rtl' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', script: 'Arab', direction: 'rtl' },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', script: 'Arab', direction: 'rtl' },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', script: 'Hebr', direction: 'rtl' },
+  { code: 'en', name: 'English', nativeName: 'English', script: 'Latn', direction: 'ltr' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', script: 'Latn', direction: 'ltr' },
+  { code: 'fr', name: 'French', nativeName: 'Français', script: 'Latn', direction: 'ltr' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', script: 'Latn', direction: 'ltr' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', script: 'Latn', direction: 'ltr' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', script: 'Latn', direction: 'ltr' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', script: 'Latn', direction: 'ltr' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', script: 'Latn', direction: 'ltr' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', script: 'Cyrl', direction: 'ltr' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська', script: 'Cyrl', direction: 'ltr' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', script: 'Latn', direction: 'ltr' },
+  { code: 'sw', name: 'Swahili', nativeName: 'Kiswahili', script: 'Latn', direction: 'ltr' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文', script: 'Hani', direction: 'ltr' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', script: 'Hira', direction: 'ltr' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', script: 'Hang', direction: 'ltr' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', script: 'Thai', direction: 'ltr' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt', script: 'Latn', direction: 'ltr' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia', script: 'Latn', direction: 'ltr' },
+  { code: 'ms', name: 'Malay', nativeName: 'Bahasa Melayu', script: 'Latn', direction: 'ltr' },
+  { code: 'fil', name: 'Filipino', nativeName: 'Filipino', script: 'Latn', direction: 'ltr' },
+];
+
+/** The tiles shown before a user has customized them. */
+export const DEFAULT_QUICK_TILES = ['ur', 'te', 'hi', 'kn', 'ta'];
+
+const byCode = new Map(LANGUAGE_CATALOG.map(l => [l.code, l]));
+const byName = new Map(LANGUAGE_CATALOG.map(l => [l.name.toLowerCase(), l]));
+
+export const getLanguage = (code: string): Language | undefined => byCode.get(code);
+
+/** Matches a character of a script written without spaces between words. */
+export const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+/** Resolves a BCP-47 code or an English name (any case) to its catalog entry. */
+export function findLanguage(codeOrName: string | null | undefined): Language | undefined {
+  if (!codeOrName) return undefined;
+  const key = codeOrName.trim();
+  return byCode.get(key) ?? byCode.get(key.split('-')[0].toLowerCase()) ?? byName.get(key.toLowerCase());
+}
+
+/** Text direction for content in the given language; `auto` when unknown. */
+export function textDirection(codeOrName: string | null | undefined): 'ltr' | 'rtl' | 'auto' {
+  return findLanguage(codeOrName)?.direction ?? 'auto';
+}
+
+/** Matches on English name, native name or code; prefix matches rank first. */
+export function searchLanguages(query: string): Language[] {
+  const q = query.trim().toLocaleLowerCase();
+  if (!q) return LANGUAGE_CATALOG;
+  const scored = LANGUAGE_CATALOG
+    .map(language => {
+      const fields = [language.name, language.nativeName, language.code].map(f => f.toLocaleLowerCase());
+      const score = fields.some(f => f.startsWith(q)) ? 0 : fields.some(f => f.includes(q)) ? 1 : -1;
+      return { language, score };
+    })
+    .filter(({ score }) => score >= 0);
+  return scored.sort((a, b) => a.score - b.score).map(({ language }) => language);
+}
+
+/**
+ * Picks whichever candidate's script dominates `text`. Returns undefined when
+ * no candidate's script appears, or when candidates share a script and the
+ * text alone can't tell them apart.
+ */
+export function detectLanguageByScript(text: string, candidates: Language[]): Language | undefined {
+  const counts = candidates.map(language => {
+    const pattern = new RegExp(`\\p{Script=${language.script}}`, 'gu');
+    return (text.match(pattern) ?? []).length;
+  });
+  const best = Math.max(...counts);
+  if (best === 0) return undefined;
+  const winners = candidates.filter((_, i) => counts[i] === best);
+  return winners.length === 1 ? winners[0] : undefined;
+}
+
+/**
+ * Which language of an interpreter pair a phrase was spoken in. What the model
+ * reported through the translation tool wins; the script is only a fallback,
+ * since it can't tell apart pairs like English and Spanish.
+ */
+export function pairLanguageOf(
+  text: string,
+  pair: [Language, Language],
+  reported?: { sourceLanguage: string; targetLanguage: string } | null,
+): Language | undefined {
+  const source = findLanguage(reported?.sourceLanguage);
+  const spoken = pair.find(l => l.code === source?.code);
+  if (spoken) return spoken;
+  const target = findLanguage(reported?.targetLanguage);
+  if (pair.some(l => l.code === target?.code)) return pair.find(l => l.code !== target?.code);
+  return detectLanguageByScript(text, pair);
+}
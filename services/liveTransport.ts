@@ -0,0 +1,40 @@
+import { FunctionResponse, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+
+/**
+ * A single piece of realtime input: a PCM audio chunk (as produced by
+ * `createBlob`), a text prompt, or notice that the audio stream has paused.
+ */
+export type LiveRealtimeInput =
+  | { media: { data: string; mimeType: string } }
+  | { text: string }
+  | { audioStreamEnd: true };
+
+/** The native-audio model sessions run on; the relay only issues tokens for the same one. */
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export interface LiveTransportCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror?: (error: ErrorEvent | Error) => void;
+  onclose?: (event: CloseEvent | { code: number; reason: string }) => void;
+}
+
+export interface LiveConnectOptions {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveTransportCallbacks;
+}
+
+/** An open live session, regardless of which backend is serving it. */
+export interface LiveSession {
+  sendRealtimeInput(input: LiveRealtimeInput): void;
+  /** Answers the function calls carried by a `toolCall` message. */
+  sendToolResponse(functionResponses: FunctionResponse[]): void;
+  close(): void;
+}
+
+/** A backend capable of opening live sessions. */
+export interface LiveTransport {
+  readonly name: string;
+  connect(options: LiveConnectOptions): Promise<LiveSession>;
+}
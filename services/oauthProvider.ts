@@ -0,0 +1,125 @@
+import { AuthSession, UserProfile } from '../types';
+import { encode } from '../utils';
+import type { AuthProvider } from './authProvider';
+
+export interface OAuthConfig {
+  clientId: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  revokeUrl: string;
+  scopes: string[];
+  redirectUri: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+// Survives the round trip to the provider, but not the tab.
+const PENDING_KEY = 'polyglot:oauth-pending';
+
+const base64Url = (bytes: Uint8Array) => encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (byteLength: number) => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+/** OAuth 2.0 authorization-code flow with PKCE, for public (browser) clients. */
+export function createOAuthProvider(config: OAuthConfig): AuthProvider {
+  const postForm = async (url: string, params: Record<string, string>) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error_description ?? body.error ?? `Sign-in request failed (${response.status}).`);
+    }
+    return response;
+  };
+
+  const fetchProfile = async (accessToken: string): Promise<UserProfile> => {
+    const response = await fetch(config.userInfoUrl, { headers: { Authorization: `Bearer ${accessToken}` } });
+    if (!response.ok) throw new Error(`Could not load your profile (${response.status}).`);
+    const info = await response.json();
+    if (!info.email) throw new Error('The identity provider did not share an email address.');
+    return { id: info.sub ?? info.email, name: info.name ?? info.email, email: info.email, avatar: info.picture ?? '' };
+  };
+
+  const toSession = (tokens: TokenResponse, user: UserProfile, previousRefreshToken: string | null = null): AuthSession => ({
+    provider: 'oauth',
+    user,
+    accessToken: tokens.access_token,
+    // Providers may omit the refresh token on refresh, meaning the old one is still good.
+    refreshToken: tokens.refresh_token ?? previousRefreshToken,
+    expiresAt: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+  });
+
+  return {
+    id: 'oauth',
+    label: 'Sign in with Google',
+
+    async signIn() {
+      const state = randomString(16);
+      const verifier = randomString(48);
+      sessionStorage.setItem(PENDING_KEY, JSON.stringify({ state, verifier }));
+      const url = new URL(config.authorizeUrl);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        scope: config.scopes.join(' '),
+        state,
+        code_challenge: await codeChallenge(verifier),
+        code_challenge_method: 'S256',
+        access_type: 'offline',
+        prompt: 'consent',
+      }).toString();
+      window.location.assign(url.toString());
+      return null;
+    },
+
+    async completeSignIn(url) {
+      const code = url.searchParams.get('code');
+      const error = url.searchParams.get('error');
+      if (!code && !error) return null;
+      const pending = JSON.parse(sessionStorage.getItem(PENDING_KEY) ?? 'null');
+      sessionStorage.removeItem(PENDING_KEY);
+      if (error) throw new Error(url.searchParams.get('error_description') ?? `Sign-in was not completed (${error}).`);
+      if (!pending || pending.state !== url.searchParams.get('state')) {
+        throw new Error('Sign-in response did not match the request. Please try again.');
+      }
+      const response = await postForm(config.tokenUrl, {
+        grant_type: 'authorization_code',
+        code: code!,
+        redirect_uri: config.redirectUri,
+        client_id: config.clientId,
+        code_verifier: pending.verifier,
+      });
+      const tokens: TokenResponse = await response.json();
+      return toSession(tokens, await fetchProfile(tokens.access_token));
+    },
+
+    async refresh(session) {
+      if (!session.refreshToken) throw new Error('Your session has expired. Please sign in again.');
+      const response = await postForm(config.tokenUrl, {
+        grant_type: 'refresh_token',
+        refresh_token: session.refreshToken,
+        client_id: config.clientId,
+      });
+      return toSession(await response.json(), session.user, session.refreshToken);
+    },
+
+    async revoke(session) {
+      // Revoking the refresh token also invalidates the access tokens issued from it.
+      await postForm(config.revokeUrl, { token: session.refreshToken ?? session.accessToken });
+    },
+  };
+}
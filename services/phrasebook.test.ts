@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HistoryEntry, Phrasebook } from '../types';
+import { addPhrase, createPhrase, createPhrasebook, hasPhrase, phrasebookFromJson, phrasebookToJson, phraseFromEntry } from './phrasebook';
+
+const source: HistoryEntry = {
+  id: 'entry-1',
+  profileId: 'ana@example.com',
+  sessionId: 'session-1',
+  role: 'user',
+  text: ' Where is the hospital? ',
+  timestamp: 1_000,
+  sourceLanguage: 'English',
+  targetLanguage: null,
+  sourceEntryId: null,
+};
+
+const translation: HistoryEntry = {
+  ...source,
+  id: 'entry-2',
+  role: 'model',
+  text: 'अस्पताल कहाँ है? ',
+  sourceLanguage: null,
+  targetLanguage: 'Hindi',
+  sourceEntryId: 'entry-1',
+  audio: { sampleRate: 24000, durationMs: 1200 },
+};
+
+describe('phraseFromEntry', () => {
+  it('drafts a phrase from a translation and the phrase it translates', () => {
+    assert.deepEqual(phraseFromEntry(translation, source), {
+      sourceText: 'Where is the hospital?',
+      sourceLanguage: 'English',
+      translation: 'अस्पताल कहाँ है?',
+      targetLanguage: 'Hindi',
+      audioEntryId: 'entry-2',
+    });
+  });
+
+  it('prefers what the model reported through the tool', () => {
+    const reported = phraseFromEntry({
+      ...translation,
+      audio: undefined,
+      translation: { sourceLanguage: 'English', sourceText: 'Where is the hospital', targetLanguage: 'Hindi', translation: 'अस्पताल कहाँ है', romanization: 'Aspataal kahaan hai' },
+    }, undefined);
+    assert.deepEqual(reported, {
+      sourceText: 'Where is the hospital',
+      sourceLanguage: 'English',
+      translation: 'अस्पताल कहाँ है',
+      targetLanguage: 'Hindi',
+      romanization: 'Aspataal kahaan hai',
+      audioEntryId: null,
+    });
+  });
+
+  it('has nothing to save for phrases, prompts or translations without a source', () => {
+    assert.equal(phraseFromEntry(source, undefined), null);
+    assert.equal(phraseFromEntry({ ...translation, targetLanguage: null }, source), null);
+    assert.equal(phraseFromEntry(translation, undefined), null);
+  });
+});
+
+describe('phrasebooks', () => {
+  it('keeps one copy of each translation', () => {
+    const phrase = createPhrase(phraseFromEntry(translation, source)!);
+    const once = addPhrase(createPhrasebook('Travel'), phrase);
+    const twice = addPhrase(once, createPhrase(phraseFromEntry(translation, source)!));
+    assert.equal(twice, once);
+    assert.ok(hasPhrase(once, phraseFromEntry(translation, source)!));
+    assert.ok(!hasPhrase(once, { ...phrase, targetLanguage: 'Tamil' }));
+  });
+
+  it('imports an export as a new collection without audio links', () => {
+    const phrase = { ...createPhrase(phraseFromEntry(translation, source)!), savedAt: 42 };
+    const phrasebook: Phrasebook = { ...createPhrasebook('Travel'), phrases: [phrase] };
+    const imported = phrasebookFromJson(phrasebookToJson(phrasebook));
+
+    assert.notEqual(imported.id, phrasebook.id);
+    assert.equal(imported.name, 'Travel');
+    assert.notEqual(imported.phrases[0].id, phrase.id);
+    assert.deepEqual(imported.phrases[0], { ...phrase, id: imported.phrases[0].id, audioEntryId: null });
+  });
+
+  it('skips malformed phrases and rejects files it cannot read', () => {
+    const document = (phrases: unknown[], extra = {}) =>
+      JSON.stringify({ format: 'polyglot-phrasebook', version: 1, phrasebook: { id: 'x', name: '', phrases }, ...extra });
+    const imported = phrasebookFromJson(document([{ sourceText: 'Hello', translation: 'Hola', targetLanguage: 'Spanish' }, { sourceText: 'Bye' }, null]));
+    assert.equal(imported.name, 'Imported phrasebook');
+    assert.deepEqual(imported.phrases.map(p => p.translation), ['Hola']);
+
+    assert.throws(() => phrasebookFromJson('not json'), /not valid JSON/);
+    assert.throws(() => phrasebookFromJson('{"format":"polyglot-session","entries":[]}'), /Not a Polyglot phrasebook export/);
+    assert.throws(() => phrasebookFromJson(document([], { version: 2 })), /newer version/);
+  });
+});
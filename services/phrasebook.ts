@@ -0,0 +1,98 @@
+import { HistoryEntry, Phrase, PhraseDraft, Phrasebook } from '../types';
+
+const PHRASEBOOK_FORMAT = 'polyglot-phrasebook';
+const PHRASEBOOK_FORMAT_VERSION = 1;
+
+const storageKey = (profileId: string) => `polyglot:phrasebooks:${profileId}`;
+
+interface PhrasebookDocument {
+  format: typeof PHRASEBOOK_FORMAT;
+  version: number;
+  exportedAt: string;
+  phrasebook: Phrasebook;
+}
+
+export function loadPhrasebooks(profileId: string): Phrasebook[] {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(profileId)) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function savePhrasebooks(profileId: string, phrasebooks: Phrasebook[]): void {
+  localStorage.setItem(storageKey(profileId), JSON.stringify(phrasebooks));
+}
+
+export const createPhrasebook = (name: string): Phrasebook => ({ id: crypto.randomUUID(), name, phrases: [] });
+
+/** The phrase a translation entry represents, or null for prompts and follow-ups. */
+export function phraseFromEntry(entry: HistoryEntry, source: HistoryEntry | undefined): PhraseDraft | null {
+  if (entry.role !== 'model' || !entry.targetLanguage) return null;
+  const sourceText = entry.translation?.sourceText ?? source?.text;
+  if (!sourceText) return null;
+  return {
+    sourceText: sourceText.trim(),
+    sourceLanguage: entry.translation?.sourceLanguage ?? source?.sourceLanguage ?? null,
+    translation: (entry.translation?.translation ?? entry.text).trim(),
+    targetLanguage: entry.targetLanguage,
+    ...(entry.translation?.romanization ? { romanization: entry.translation.romanization } : {}),
+    audioEntryId: entry.audio ? entry.id : null,
+  };
+}
+
+/** Stamps a draft as saved now. */
+export const createPhrase = (draft: PhraseDraft): Phrase => ({ id: crypto.randomUUID(), ...draft, savedAt: Date.now() });
+
+const samePhrase = (a: PhraseDraft, b: PhraseDraft) =>
+  a.targetLanguage === b.targetLanguage && a.sourceText === b.sourceText && a.translation === b.translation;
+
+export const hasPhrase = (phrasebook: Phrasebook, phrase: PhraseDraft): boolean =>
+  phrasebook.phrases.some(p => samePhrase(p, phrase));
+
+/** Adds `phrase` unless the phrasebook already has the same translation. */
+export const addPhrase = (phrasebook: Phrasebook, phrase: Phrase): Phrasebook =>
+  hasPhrase(phrasebook, phrase) ? phrasebook : { ...phrasebook, phrases: [...phrasebook.phrases, phrase] };
+
+export function phrasebookToJson(phrasebook: Phrasebook): string {
+  const document: PhrasebookDocument = {
+    format: PHRASEBOOK_FORMAT,
+    version: PHRASEBOOK_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    phrasebook,
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Parses an exported phrasebook. It gets fresh ids so importing the same file
+ * twice yields two collections, and audio links are dropped because the
+ * recordings live in the exporting browser's history.
+ */
+export function phrasebookFromJson(text: string): Phrasebook {
+  let document: Partial<PhrasebookDocument>;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('Phrasebook file is not valid JSON.');
+  }
+  if (document.format !== PHRASEBOOK_FORMAT || !document.phrasebook || !Array.isArray(document.phrasebook.phrases)) {
+    throw new Error('Not a Polyglot phrasebook export.');
+  }
+  if ((document.version ?? 0) > PHRASEBOOK_FORMAT_VERSION) {
+    throw new Error('This phrasebook was exported by a newer version of Polyglot.');
+  }
+  const phrases = document.phrasebook.phrases
+    .filter(p => typeof p?.sourceText === 'string' && typeof p.translation === 'string' && typeof p.targetLanguage === 'string')
+    .map((p): Phrase => ({
+      id: crypto.randomUUID(),
+      sourceText: p.sourceText,
+      sourceLanguage: p.sourceLanguage ?? null,
+      translation: p.translation,
+      targetLanguage: p.targetLanguage,
+      ...(p.romanization ? { romanization: p.romanization } : {}),
+      audioEntryId: null,
+      savedAt: p.savedAt ?? Date.now(),
+    }));
+  return { id: crypto.randomUUID(), name: document.phrasebook.name || 'Imported phrasebook', phrases };
+}
@@ -0,0 +1,85 @@
+import { Glossary, Language, Phrase, SessionMode } from '../types';
+import { glossaryInstruction } from './glossary';
+import { TRANSLATION_TOOL_INSTRUCTION } from './translationTool';
+
+export interface PromptOptions {
+  mode: SessionMode;
+  /** Languages offered first in the confirmation prompt (translate mode). */
+  primaryLanguages: Language[];
+  /** Speaker A's and speaker B's languages (interpreter mode). */
+  interpreterPair: [Language, Language];
+  /** Terminology the model must honor, if a glossary is active. */
+  glossary?: Glossary | null;
+}
+
+const PERSONA = `You are the "Neural Polyglot Assistant."`;
+
+const listNames = (languages: Language[]) => {
+  const names = languages.map(l => l.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')}, ${names[names.length - 1]}` : names.join('');
+};
+
+function translateInstruction(primaryLanguages: Language[]): string {
+  const primary = listNames(primaryLanguages);
+  return `
+${PERSONA}
+Your workflow is strictly as follows:
+1. RECORDING PHASE: You listen silently while the user speaks.
+2. CONFIRMATION & OPTIONS: Immediately after the user finishes their phrase, you must say: "I've recorded that. Would you like me to translate it into ${primary}, or any other language?"
+3. TRANSLATION PHASE: Once they provide a language name (e.g., "${primaryLanguages[0]?.name ?? 'Telugu'}"), you perform the translation using a native-quality voice.
+4. FOLLOW-UP: After translating, ask: "Would you like another language for this same phrase, or should we record a new one?"
+
+You support all global languages but prioritize listing ${primary} as the primary options. Be professional, sophisticated, and act as a high-end AI dashboard.
+`;
+}
+
+function interpreterInstruction([a, b]: [Language, Language]): string {
+  return `
+${PERSONA}
+You are acting as a live interpreter between two people. One speaks ${a.name}, the other speaks ${b.name}.
+Rules:
+1. Whenever you hear speech in ${a.name}, immediately say its translation in ${b.name}.
+2. Whenever you hear speech in ${b.name}, immediately say its translation in ${a.name}.
+3. Speak only the translation. Never confirm, comment, ask questions, or answer what was said, even if it is addressed to you.
+4. Preserve the speaker's meaning, tone and register, and keep names and numbers exact.
+5. If an utterance is in neither language, translate it into ${a.name}.
+`;
+}
+
+/** Wraps a typed phrase so the model handles it exactly like a spoken one. */
+export function typedPhrasePrompt(mode: SessionMode, text: string): string {
+  return mode === 'interpreter'
+    ? `Interpret this typed utterance as if it had just been spoken:\n"${text}"`
+    : `The user typed this phrase instead of speaking it. Treat it exactly as if they had just said it:\n"${text}"`;
+}
+
+/** Sent when a pronunciation drill starts, so the model listens to the attempt instead of translating it. */
+export function practicePrompt(phrase: Phrase): string {
+  return `The user is practicing their pronunciation. They are about to say this ${phrase.targetLanguage} phrase aloud:\n"${phrase.translation}"\n` +
+    `Reply now with only "Go ahead". Each time they say it, do not translate, repeat or correct it; reply with one short word of encouragement in English. Keep doing this until told practice is over.`;
+}
+
+/** Sent when the drill ends, so the model goes back to its usual workflow. */
+export const PRACTICE_END_PROMPT = 'Pronunciation practice is over. Reply with only "OK", then resume your normal workflow with the next phrase.';
+
+/**
+ * Appended to the system instruction when a session has to be replaced by a
+ * fresh one that can't be resumed (after a drop, or to change voice), so the
+ * conversation picks up where it left off.
+ */
+export function reconnectInstruction(sourceText: string, partialInput: string): string {
+  const lines = [
+    'RECONNECTED: this is a continuation of the same conversation on a new connection. Do not greet the user or repeat the introduction.',
+  ];
+  if (sourceText.trim()) lines.push(`The phrase currently being translated is: "${sourceText.trim()}"`);
+  if (partialInput.trim()) lines.push(`The user was in the middle of saying: "${partialInput.trim()}"`);
+  return `\n${lines.join('\n')}\n`;
+}
+
+/** Generates the session's system instruction for the chosen mode. */
+export function buildSystemInstruction({ mode, primaryLanguages, interpreterPair, glossary }: PromptOptions): string {
+  const workflow = mode === 'interpreter'
+    ? interpreterInstruction(interpreterPair)
+    : translateInstruction(primaryLanguages);
+  return workflow + TRANSLATION_TOOL_INSTRUCTION + (glossary ? glossaryInstruction(glossary) : '');
+}
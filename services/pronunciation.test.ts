@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizeSpeech, scorePronunciation, similarity } from './pronunciation';
+
+describe('similarity', () => {
+  it('falls by one character in the longer string per edit', () => {
+    assert.equal(similarity('hospital', 'hospital'), 1);
+    assert.equal(similarity('hospital', 'hospitel'), 7 / 8);
+    assert.equal(similarity('', ''), 1);
+    assert.equal(similarity('abc', ''), 0);
+  });
+});
+
+describe('scorePronunciation', () => {
+  it('ignores case and punctuation', () => {
+    assert.equal(normalizeSpeech('  Où est l’hôpital ?! '), 'où est l hôpital');
+    const result = scorePronunciation('Where is the hospital?', ' where is the HOSPITAL ');
+    assert.equal(result.score, 1);
+    assert.equal(result.heard, 'where is the HOSPITAL');
+    assert.ok(result.words.every(word => word.status === 'correct'));
+  });
+
+  it('marks near misses close, with what was heard', () => {
+    const { words, score } = scorePronunciation('the hospital', 'the hospitel');
+    assert.deepEqual(words, [{ word: 'the', status: 'correct' }, { word: 'hospital', status: 'close', heard: 'hospitel' }]);
+    assert.ok(score > 0.9 && score < 1);
+  });
+
+  it('aligns dropped and added words instead of shifting everything after them', () => {
+    assert.deepEqual(scorePronunciation('the nearest hospital', 'the hospital please').words, [
+      { word: 'the', status: 'correct' },
+      { word: 'nearest', status: 'missed' },
+      { word: 'hospital', status: 'correct' },
+      { word: 'please', status: 'extra' },
+    ]);
+  });
+
+  it('marks a different word missed, with what was heard', () => {
+    assert.deepEqual(scorePronunciation('cat', 'dog').words, [{ word: 'cat', status: 'missed', heard: 'dog' }]);
+  });
+
+  it('scores silence zero with every word missed', () => {
+    assert.deepEqual(scorePronunciation('good morning', ''), {
+      score: 0,
+      heard: '',
+      words: [{ word: 'good', status: 'missed' }, { word: 'morning', status: 'missed' }],
+    });
+  });
+
+  it('compares unspaced scripts character by character', () => {
+    const { words, score } = scorePronunciation('病院はどこですか', '病院はどこですか。');
+    assert.equal(score, 1);
+    assert.deepEqual(words.map(w => w.word), Array.from('病院はどこですか'));
+
+    const missed = scorePronunciation('病院はどこですか', '病院どこですか');
+    assert.deepEqual(missed.words.filter(w => w.status !== 'correct'), [{ word: 'は', status: 'missed' }]);
+  });
+});
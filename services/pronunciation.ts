@@ -0,0 +1,85 @@
+import { PracticeResult, WordFeedback } from '../types';
+import { UNSPACED_SCRIPT } from './languageCatalog';
+
+// A misheard word at least this similar to the expected one counts as nearly right.
+const CLOSE_WORD_SIMILARITY = 0.6;
+
+/** Lowercased, NFC-normalized text with punctuation and symbols reduced to single spaces. */
+export const normalizeSpeech = (text: string): string =>
+  text.normalize('NFC').toLocaleLowerCase().replace(/[\p{P}\p{S}]+/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Scripts written without spaces between words are compared character by character.
+function tokenize(normalized: string): string[] {
+  if (!normalized) return [];
+  return UNSPACED_SCRIPT.test(normalized) ? Array.from(normalized.replace(/\s/g, '')) : normalized.split(' ');
+}
+
+/** Weighted edit-distance table between `a` and `b`; insertions and deletions cost 1. */
+function distanceTable<T>(a: T[], b: T[], substitutionCost: (x: T, y: T) => number): number[][] {
+  const table = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) table[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      table[i][j] = Math.min(
+        table[i - 1][j] + 1,
+        table[i][j - 1] + 1,
+        table[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1]),
+      );
+    }
+  }
+  return table;
+}
+
+/** 1 for identical strings, falling towards 0 as more characters differ. */
+export function similarity(a: string, b: string): number {
+  const x = Array.from(a);
+  const y = Array.from(b);
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) return 1;
+  return 1 - distanceTable(x, y, (p, q) => (p === q ? 0 : 1))[x.length][y.length] / longest;
+}
+
+/**
+ * Compares what the transcription heard with the phrase being practiced. The
+ * score is character-level similarity of the whole phrase; words are aligned
+ * so each expected word is marked correct, close or missed, and anything
+ * heard that doesn't line up with an expected word is marked extra.
+ */
+export function scorePronunciation(target: string, heard: string): PracticeResult {
+  const expectedText = normalizeSpeech(target);
+  const heardText = normalizeSpeech(heard);
+  const expected = tokenize(expectedText);
+  const spoken = tokenize(heardText);
+  // Pairing up dissimilar words costs as much as dropping one and adding the other, so only near matches pair.
+  const cost = (x: string, y: string) => {
+    const score = similarity(x, y);
+    return score >= CLOSE_WORD_SIMILARITY ? 1 - score : 2;
+  };
+  const table = distanceTable(expected, spoken, cost);
+
+  // Walk back through the table to recover the alignment.
+  const words: WordFeedback[] = [];
+  let i = expected.length;
+  let j = spoken.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && table[i][j] === table[i - 1][j - 1] + cost(expected[i - 1], spoken[j - 1])) {
+      const score = similarity(expected[i - 1], spoken[j - 1]);
+      words.push(
+        score === 1 ? { word: expected[i - 1], status: 'correct' }
+        : score >= CLOSE_WORD_SIMILARITY ? { word: expected[i - 1], status: 'close', heard: spoken[j - 1] }
+        : { word: expected[i - 1], status: 'missed', heard: spoken[j - 1] },
+      );
+      i--;
+      j--;
+    } else if (i > 0 && table[i][j] === table[i - 1][j] + 1) {
+      words.push({ word: expected[i - 1], status: 'missed' });
+      i--;
+    } else {
+      words.push({ word: spoken[j - 1], status: 'extra' });
+      j--;
+    }
+  }
+
+  const score = heardText ? similarity(expectedText.replace(/\s/g, ''), heardText.replace(/\s/g, '')) : 0;
+  return { score, heard: heard.trim(), words: words.reverse() };
+}
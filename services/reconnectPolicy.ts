@@ -0,0 +1,15 @@
+/** Reconnect attempts in a row before the session is given up as lost. */
+export const MAX_RECONNECT_ATTEMPTS = 6;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 10_000;
+
+/**
+ * Exponential backoff with equal jitter: attempt 1 waits 0.25–0.5 s,
+ * attempt 2 0.5–1 s, and so on, capped at 10 s. Keeping half the delay
+ * fixed stops an early retry from landing straight away.
+ */
+export function reconnectDelay(attempt: number, random = Math.random): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
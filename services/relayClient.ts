@@ -0,0 +1,32 @@
+import type { LiveTokenPurpose, LiveTokenResponse } from '../server/relay';
+import { HttpStatusError, RELAY_RATE_LIMITED } from './appErrors';
+
+const RELAY_URL = process.env.RELAY_URL ?? '';
+
+/**
+ * Asks the relay server for a single-use Live API token, proving who is
+ * asking with the sign-in `accessToken`. The Gemini API key itself never
+ * reaches the browser. Voice samples are an `audition`, which the relay
+ * budgets separately from sessions.
+ */
+export async function fetchLiveToken(accessToken: string | null, purpose: LiveTokenPurpose = 'session'): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(`${RELAY_URL}/api/live-token${purpose === 'audition' ? '?purpose=audition' : ''}`, {
+      method: 'POST',
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    });
+  } catch {
+    throw new Error('Could not reach the relay server. Is `npm run relay` running?');
+  }
+  const body = await response.json().catch(() => ({}));
+  if (response.status === 429) {
+    const retryAfterSeconds = body.retryAfterSeconds ?? 60;
+    const what = purpose === 'audition' ? 'voice samples requested' : 'sessions started';
+    throw new HttpStatusError(`Too many ${what}. Try again in ${retryAfterSeconds} seconds.`, 429, RELAY_RATE_LIMITED, retryAfterSeconds);
+  }
+  if (!response.ok) {
+    throw new HttpStatusError(body.error ?? `Relay request failed (${response.status}).`, body.upstreamStatus ?? response.status, body.upstreamReason ?? undefined);
+  }
+  return (body as LiveTokenResponse).token;
+}
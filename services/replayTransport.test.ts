@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AUDITION_REPLAY_SCRIPT, createReplayTransport, DEMO_REPLAY_SCRIPT } from './replayTransport';
+import { CompletedTurn, createTranslationSession } from './translationSession';
+import { INITIAL_WORKFLOW, transitionWorkflow, WorkflowEvent, WorkflowPhase } from './translationWorkflow';
+import { auditionVoice } from './voiceAudition';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the replay.');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('the demo replay through a translation session', () => {
+  it('records a phrase, translates it on request and asks the follow-up', async () => {
+    let workflow = INITIAL_WORKFLOW;
+    const phases: WorkflowPhase[] = [];
+    const dispatch = (event: WorkflowEvent) => {
+      const next = transitionWorkflow(workflow, event);
+      if (next.phase !== workflow.phase) phases.push(next.phase);
+      workflow = next;
+    };
+    const turns: CompletedTurn[] = [];
+    const audioChunks: string[] = [];
+
+    const session = createTranslationSession({
+      transport: createReplayTransport(DEMO_REPLAY_SCRIPT, { intervalMs: 1, audioChunksPerTurn: 2 }),
+      systemInstruction: 'Translate.',
+      voice: 'Kore',
+      maxPendingAudioBytes: 1000,
+      contextReminder: () => '',
+      dispatch,
+      onModelAudio: data => audioChunks.push(data),
+      // What the app does with a turn, as far as the workflow is concerned.
+      onTurnComplete: turn => {
+        turns.push(turn);
+        if (turn.input.trim()) dispatch({ type: 'phrase-recorded' });
+        dispatch({ type: 'turn-complete', translated: !!turn.translation });
+      },
+      onFailed: error => assert.fail(error.detail),
+    });
+
+    dispatch({ type: 'start', mode: 'translate' });
+    await session.connect();
+    await waitFor(() => session.isOpen && workflow.phase === 'listening');
+
+    const mic = { media: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } };
+    session.send(mic);
+    session.send(mic);
+    await waitFor(() => turns.length === 1);
+    assert.equal(turns[0].input, 'Where is the nearest hospital?');
+    assert.match(turns[0].output, /^I've recorded that\./);
+    assert.equal(turns[0].translation, null);
+    assert.equal(workflow.phase, 'awaiting-language');
+
+    // The replay only moves on to the next turn one interval after `turnComplete`; text sent before that is ignored.
+    await new Promise(resolve => setTimeout(resolve, 10));
+    dispatch({ type: 'language-requested' });
+    session.send({ text: 'Translate that to Hindi' });
+    // The follow-up question plays straight after the translation.
+    await waitFor(() => turns.length === 3);
+    assert.equal(turns[1].input, '');
+    assert.equal(turns[1].output, 'सबसे नज़दीकी अस्पताल कहाँ है?');
+    assert.equal(turns[1].translation?.targetLanguage, 'Hindi');
+    assert.match(turns[2].output, /^Would you like another language/);
+    assert.equal(audioChunks.length, 14);
+
+    assert.deepEqual(phases, ['connecting', 'listening', 'awaiting-language', 'translating', 'follow-up']);
+    session.close();
+  });
+});
+
+describe('voice auditions in replay mode', () => {
+  it('answers the sample prompt with audio', async () => {
+    const pcm = await auditionVoice(createReplayTransport(AUDITION_REPLAY_SCRIPT, { intervalMs: 1 }), 'Puck');
+    // Four 250 ms tones of 24 kHz 16-bit PCM.
+    assert.equal(pcm.byteLength, 4 * 6000 * 2);
+  });
+});
@@ -0,0 +1,281 @@
+import { LiveServerMessage } from '@google/genai';
+import { TranslationResult } from '../types';
+import { encode } from '../utils';
+import { RECORD_TRANSLATION } from './translationTool';
+import {
+  LiveConnectOptions,
+  LiveRealtimeInput,
+  LiveSession,
+  LiveTransport,
+} from './liveTransport';
+
+/** What a scripted turn waits for before it starts playing. */
+export type ReplayTrigger = 'open' | 'audio' | 'text';
+
+/** Plain-object form of a server message, as stored in scripts and recordings. */
+export type ReplayMessage = Omit<LiveServerMessage, 'text' | 'data'>;
+
+export interface ReplayTurn {
+  /**
+   * `open` turns play as soon as they are reached, `audio` turns once enough
+   * microphone chunks have arrived, and `text` turns on the next text input.
+   */
+  after: ReplayTrigger;
+  messages: ReplayMessage[];
+  /** Delay between consecutive messages of this turn, in milliseconds. */
+  intervalMs?: number;
+}
+
+export interface ReplayScript {
+  turns: ReplayTurn[];
+  /** Start over from the first turn once the script is exhausted. */
+  loop?: boolean;
+}
+
+export interface ReplayTransportOptions {
+  /** Default delay between messages when a turn doesn't set its own. */
+  intervalMs?: number;
+  /** Audio chunks that must arrive before an `audio` turn fires. */
+  audioChunksPerTurn?: number;
+}
+
+const toServerMessage = (message: ReplayMessage): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), message);
+
+/**
+ * Live transport that plays back a scripted or recorded message sequence,
+ * so the UI and the whole turn flow can run offline without an API key.
+ */
+export function createReplayTransport(
+  script: ReplayScript,
+  { intervalMs = 120, audioChunksPerTurn = 8 }: ReplayTransportOptions = {},
+): LiveTransport {
+  return {
+    name: 'replay',
+    async connect({ callbacks }: LiveConnectOptions): Promise<LiveSession> {
+      const timers = new Set<ReturnType<typeof setTimeout>>();
+      let cursor = 0;
+      let playing = false;
+      let closed = false;
+      let audioChunks = 0;
+
+      const schedule = (fn: () => void, delay: number) => {
+        const id = setTimeout(() => {
+          timers.delete(id);
+          if (!closed) fn();
+        }, delay);
+        timers.add(id);
+      };
+
+      const currentTurn = (): ReplayTurn | undefined => {
+        if (cursor >= script.turns.length && script.loop) cursor = 0;
+        return script.turns[cursor];
+      };
+
+      const play = (turn: ReplayTurn) => {
+        playing = true;
+        const delay = turn.intervalMs ?? intervalMs;
+        turn.messages.forEach((message, i) => {
+          schedule(() => callbacks.onmessage(toServerMessage(message)), delay * (i + 1));
+        });
+        schedule(() => {
+          playing = false;
+          audioChunks = 0;
+          cursor++;
+          advance();
+        }, delay * (turn.messages.length + 1));
+      };
+
+      const advance = (trigger?: ReplayTrigger) => {
+        if (playing || closed) return;
+        const turn = currentTurn();
+        if (!turn) return;
+        if (turn.after === 'open' || turn.after === trigger) play(turn);
+      };
+
+      schedule(() => {
+        callbacks.onopen?.();
+        advance();
+      }, 0);
+
+      return {
+        sendRealtimeInput(input: LiveRealtimeInput) {
+          if (closed) return;
+          if ('text' in input) {
+            advance('text');
+          } else if ('audioStreamEnd' in input) {
+            // A gated microphone pausing marks the end of an utterance.
+            if (audioChunks > 0) advance('audio');
+          } else if (++audioChunks >= audioChunksPerTurn) {
+            advance('audio');
+          }
+        },
+        // Scripts don't branch on tool results, so responses are simply accepted.
+        sendToolResponse() {},
+        close() {
+          if (closed) return;
+          closed = true;
+          timers.forEach(clearTimeout);
+          timers.clear();
+          callbacks.onclose?.({ code: 1000, reason: 'Replay session closed' });
+        },
+      };
+    },
+  };
+}
+
+export interface ScriptedTurnOptions {
+  after: ReplayTrigger;
+  /** What the user "said"; emitted as input transcription fragments. */
+  input?: string;
+  /** What the model "says"; emitted as output transcription fragments. */
+  output?: string;
+  /** Base64 PCM chunks (24 kHz, 16-bit mono) interleaved with the output text. */
+  audio?: string[];
+  /** Emitted as a `record_translation` tool call before the model speaks. */
+  translation?: TranslationResult;
+  /** End the turn with `interrupted` instead of `turnComplete`. */
+  interrupted?: boolean;
+  intervalMs?: number;
+}
+
+const fragments = (text: string) => text.match(/\S+\s*/g) ?? [];
+
+/** Builds the message sequence the Live API emits for one conversational turn. */
+export function scriptedTurn({
+  after,
+  input,
+  output,
+  audio = [],
+  translation,
+  interrupted = false,
+  intervalMs,
+}: ScriptedTurnOptions): ReplayTurn {
+  const messages: ReplayMessage[] = [];
+  if (input) {
+    fragments(input).forEach(text => messages.push({ serverContent: { inputTranscription: { text } } }));
+  }
+  if (translation) {
+    messages.push({
+      toolCall: { functionCalls: [{ id: `replay-${Math.random().toString(36).slice(2)}`, name: RECORD_TRANSLATION, args: { ...translation } }] },
+    });
+  }
+  const outputFragments = output ? fragments(output) : [];
+  const steps = Math.max(outputFragments.length, audio.length);
+  for (let i = 0; i < steps; i++) {
+    if (i < audio.length) {
+      messages.push({
+        serverContent: {
+          modelTurn: { role: 'model', parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: audio[i] } }] },
+        },
+      });
+    }
+    if (i < outputFragments.length) {
+      messages.push({ serverContent: { outputTranscription: { text: outputFragments[i] } } });
+    }
+  }
+  messages.push({ serverContent: interrupted ? { interrupted: true } : { turnComplete: true } });
+  return { after, messages, intervalMs };
+}
+
+/** Generates a short sine tone as base64 PCM, standing in for model speech. */
+export function synthesizeTone(durationMs: number, frequency = 220, sampleRate = 24000): string {
+  const frames = Math.round((durationMs / 1000) * sampleRate);
+  const pcm = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2 * 32767);
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+const toneChunks = (count: number, frequency: number) =>
+  Array.from({ length: count }, () => synthesizeTone(250, frequency));
+
+/** The record → confirm → translate → follow-up flow, for offline development. */
+export const DEMO_REPLAY_SCRIPT: ReplayScript = {
+  loop: true,
+  turns: [
+    scriptedTurn({
+      after: 'audio',
+      input: 'Where is the nearest hospital?',
+      output: "I've recorded that. Would you like me to translate it into Urdu, Telugu, Hindi, Kannada, Tamil, or any other language?",
+      audio: toneChunks(6, 220),
+    }),
+    scriptedTurn({
+      after: 'text',
+      output: 'सबसे नज़दीकी अस्पताल कहाँ है?',
+      audio: toneChunks(4, 262),
+      translation: {
+        sourceLanguage: 'English',
+        sourceText: 'Where is the nearest hospital?',
+        targetLanguage: 'Hindi',
+        translation: 'सबसे नज़दीकी अस्पताल कहाँ है?',
+        romanization: 'Sabse nazdeeki aspataal kahaan hai?',
+      },
+    }),
+    scriptedTurn({
+      after: 'open',
+      output: 'Would you like another language for this same phrase, or should we record a new one?',
+      audio: toneChunks(4, 220),
+    }),
+  ],
+};
+
+/** Answers every text prompt with one short line, standing in for voice samples offline. */
+export const AUDITION_REPLAY_SCRIPT: ReplayScript = {
+  loop: true,
+  turns: [
+    scriptedTurn({
+      after: 'text',
+      output: 'Hello, this is how your translations will sound.',
+      audio: toneChunks(4, 330),
+    }),
+  ],
+};
+
+/**
+ * Wraps a transport so every server message is captured alongside the client
+ * input that preceded it; `toScript()` yields a replayable script.
+ */
+export function recordTransport(inner: LiveTransport): { transport: LiveTransport; toScript(): ReplayScript } {
+  const turns: ReplayTurn[] = [];
+  let lastInput: ReplayTrigger = 'open';
+  let current: ReplayTurn | null = null;
+
+  const capture = (message: LiveServerMessage) => {
+    if (!current) {
+      current = { after: lastInput, messages: [] };
+      turns.push(current);
+      lastInput = 'open';
+    }
+    current.messages.push(JSON.parse(JSON.stringify(message)));
+    if (message.serverContent?.turnComplete || message.serverContent?.interrupted) current = null;
+  };
+
+  return {
+    transport: {
+      name: `recording:${inner.name}`,
+      async connect(options: LiveConnectOptions): Promise<LiveSession> {
+        const session = await inner.connect({
+          ...options,
+          callbacks: {
+            ...options.callbacks,
+            onmessage: (message) => {
+              capture(message);
+              options.callbacks.onmessage(message);
+            },
+          },
+        });
+        return {
+          sendRealtimeInput(input) {
+            if (!current) lastInput = 'text' in input ? 'text' : 'audio';
+            session.sendRealtimeInput(input);
+          },
+          sendToolResponse: (functionResponses) => session.sendToolResponse(functionResponses),
+          close: () => session.close(),
+        };
+      },
+    },
+    toScript: () => ({ turns: JSON.parse(JSON.stringify(turns)) }),
+  };
+}
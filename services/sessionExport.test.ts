@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HistoryEntry } from '../types';
+import { importedEntries, parseSessionJson, toCsv, toJson, toMarkdown, toSrt, toWebVtt } from './sessionExport';
+
+const phrase: HistoryEntry = {
+  id: 'entry-1',
+  profileId: 'ana@example.com',
+  sessionId: 'session-1',
+  role: 'user',
+  text: 'Where is the hospital, please?',
+  timestamp: 1_000,
+  sourceLanguage: 'English',
+  targetLanguage: null,
+  sourceEntryId: null,
+  audio: { sampleRate: 16000, durationMs: 1800 },
+};
+
+const translation: HistoryEntry = {
+  id: 'entry-2',
+  profileId: 'ana@example.com',
+  sessionId: 'session-1',
+  role: 'model',
+  text: 'अस्पताल कहाँ है?',
+  timestamp: 1_500,
+  sourceLanguage: null,
+  targetLanguage: 'Hindi',
+  sourceEntryId: 'entry-1',
+  translation: {
+    sourceLanguage: 'English',
+    sourceText: 'Where is the hospital, please?',
+    targetLanguage: 'Hindi',
+    translation: 'अस्पताल कहाँ है?',
+    romanization: 'Aspataal kahaan hai?',
+  },
+};
+
+const followUp: HistoryEntry = {
+  ...translation,
+  id: 'entry-3',
+  text: 'Another language --> or a new phrase?',
+  timestamp: 4_000,
+  targetLanguage: null,
+  sourceEntryId: null,
+  translation: undefined,
+};
+
+const session = [followUp, phrase, translation];
+
+describe('session export formats', () => {
+  it('writes SRT cues in time order, clipped so they never overlap', () => {
+    assert.equal(toSrt(session), [
+      '1\n00:00:00,000 --> 00:00:00,500\nYou · English: Where is the hospital, please?\n',
+      '2\n00:00:00,500 --> 00:00:01,500\nPolyglot · Hindi: अस्पताल कहाँ है?\n',
+      '3\n00:00:03,000 --> 00:00:05,220\nPolyglot: Another language --> or a new phrase?\n',
+    ].join('\n'));
+  });
+
+  it('writes WebVTT with dotted times and no cue arrows inside the text', () => {
+    const vtt = toWebVtt(session);
+    assert.ok(vtt.startsWith('WEBVTT\n\n00:00:00.000 --> 00:00:00.500\n'));
+    assert.ok(vtt.endsWith('00:00:03.000 --> 00:00:05.220\nPolyglot: Another language -> or a new phrase?\n'));
+  });
+
+  it('writes one quoted CSV row per translation', () => {
+    assert.equal(toCsv(session), 'source,target_language,translation\r\n"Where is the hospital, please?",Hindi,अस्पताल कहाँ है?\r\n');
+  });
+
+  it('writes Markdown quotes with the romanization under the translation', () => {
+    const markdown = toMarkdown(session);
+    assert.ok(markdown.startsWith('# Polyglot session — '));
+    assert.match(markdown, /\*\*Polyglot · Hindi\*\* · [^\n]+\n\n> अस्पताल कहाँ है\?\n\n_Aspataal kahaan hai\?_\n/);
+  });
+});
+
+describe('session JSON import', () => {
+  it('reads back what it exported', () => {
+    const document = parseSessionJson(toJson('session-1', session));
+    assert.equal(document.sessionId, 'session-1');
+    assert.deepEqual(document.entries, JSON.parse(JSON.stringify(session)));
+  });
+
+  it('rejects files that are not a session export it can read', () => {
+    assert.throws(() => parseSessionJson('{'), /not valid JSON/);
+    assert.throws(() => parseSessionJson('{"format":"polyglot-phrasebook","entries":[]}'), /not a Polyglot session export/);
+    assert.throws(() => parseSessionJson('{"format":"polyglot-session","version":2,"entries":[]}'), /newer than this app supports/);
+    assert.throws(
+      () => parseSessionJson(JSON.stringify({ format: 'polyglot-session', version: 1, entries: [{ ...phrase, role: 'system' }] })),
+      /malformed entries/,
+    );
+  });
+
+  it('gives imported entries fresh ids and remaps the links between them', () => {
+    const orphan: HistoryEntry = { ...translation, id: 'entry-4', sessionId: 'session-2', sourceEntryId: 'not-in-file' };
+    const document = parseSessionJson(toJson('session-1', [...session, orphan]));
+    const [importedFollowUp, importedPhrase, importedTranslation, importedOrphan] = importedEntries(document, 'ben@example.com');
+
+    const ids = [importedFollowUp, importedPhrase, importedTranslation, importedOrphan].map(e => e.id);
+    assert.equal(new Set(ids).size, 4);
+    assert.ok(ids.every(id => !id.startsWith('entry-')));
+    assert.equal(importedTranslation.sourceEntryId, importedPhrase.id);
+    assert.equal(importedOrphan.sourceEntryId, null);
+
+    assert.notEqual(importedPhrase.sessionId, 'session-1');
+    assert.equal(importedTranslation.sessionId, importedPhrase.sessionId);
+    assert.notEqual(importedOrphan.sessionId, importedPhrase.sessionId);
+
+    assert.equal(importedPhrase.profileId, 'ben@example.com');
+    assert.equal(importedPhrase.audio, undefined);
+    assert.equal(importedTranslation.translation?.romanization, 'Aspataal kahaan hai?');
+  });
+});
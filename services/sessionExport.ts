@@ -0,0 +1,179 @@
+import { HistoryEntry } from '../types';
+import { entryLabel } from './entryLabels';
+import { toCsvRow } from './csv';
+
+export type ExportFormat = 'srt' | 'vtt' | 'json' | 'csv' | 'md';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+];
+
+const SESSION_FORMAT = 'polyglot-session';
+const SESSION_FORMAT_VERSION = 1;
+
+export interface SessionDocument {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessionId: string;
+  entries: HistoryEntry[];
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  entry: HistoryEntry;
+}
+
+const MIN_CUE_MS = 1000;
+const MAX_CUE_MS = 7000;
+const MS_PER_CHAR = 60;
+
+/**
+ * Entry timestamps mark when each turn completed. A cue starts there and
+ * lasts long enough to read the text, clipped so it never overlaps the next
+ * cue. Times are relative to the first entry of the session.
+ */
+function buildCues(entries: HistoryEntry[]): Cue[] {
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const origin = sorted[0]?.timestamp ?? 0;
+  return sorted.map((entry, i) => {
+    const start = entry.timestamp - origin;
+    const readingTime = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, entry.text.length * MS_PER_CHAR));
+    const next = sorted[i + 1];
+    const end = next ? Math.max(start + 1, Math.min(start + readingTime, next.timestamp - origin)) : start + readingTime;
+    return { start, end, entry };
+  });
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function formatTimestamp(ms: number, fractionSeparator: ',' | '.'): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(Math.floor(ms % 1000), 3)}`;
+}
+
+const cueText = (entry: HistoryEntry) => `${entryLabel(entry)}: ${entry.text.trim()}`;
+
+export function toSrt(entries: HistoryEntry[]): string {
+  return buildCues(entries)
+    .map(({ start, end, entry }, i) =>
+      `${i + 1}\n${formatTimestamp(start, ',')} --> ${formatTimestamp(end, ',')}\n${cueText(entry)}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(entries: HistoryEntry[]): string {
+  const cues = buildCues(entries).map(({ start, end, entry }) =>
+    `${formatTimestamp(start, '.')} --> ${formatTimestamp(end, '.')}\n${cueText(entry).replace(/-->/g, '->')}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function toJson(sessionId: string, entries: HistoryEntry[]): string {
+  const document: SessionDocument = {
+    format: SESSION_FORMAT,
+    version: SESSION_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessionId,
+    entries,
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/** One row per translation, joined back to the phrase it translates. */
+export function toCsv(entries: HistoryEntry[]): string {
+  const sources = new Map(entries.map(e => [e.id, e]));
+  const rows = entries
+    .filter(e => e.role === 'model' && (e.translation || (e.sourceEntryId && e.targetLanguage)))
+    .map(e => toCsvRow([
+      e.translation?.sourceText ?? sources.get(e.sourceEntryId!)?.text ?? '',
+      e.targetLanguage!,
+      e.translation?.translation ?? e.text,
+    ].map(v => v.trim())));
+  return ['source,target_language,translation', ...rows].join('\r\n') + '\r\n';
+}
+
+export function toMarkdown(entries: HistoryEntry[]): string {
+  const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const started = sorted[0] ? new Date(sorted[0].timestamp).toLocaleString() : '';
+  const lines = sorted.map(entry => {
+    const romanization = entry.translation?.romanization ? `\n\n_${entry.translation.romanization}_` : '';
+    return `**${entryLabel(entry)}** · ${new Date(entry.timestamp).toLocaleTimeString()}\n\n> ${entry.text.trim().replace(/\n/g, '\n> ')}${romanization}\n`;
+  });
+  return [`# Polyglot session — ${started}\n`, ...lines].join('\n');
+}
+
+export function exportSession(format: ExportFormat, sessionId: string, entries: HistoryEntry[]): string {
+  switch (format) {
+    case 'srt': return toSrt(entries);
+    case 'vtt': return toWebVtt(entries);
+    case 'json': return toJson(sessionId, entries);
+    case 'csv': return toCsv(entries);
+    case 'md': return toMarkdown(entries);
+  }
+}
+
+const isEntry = (value: any): value is HistoryEntry =>
+  value && typeof value.id === 'string' && typeof value.sessionId === 'string' &&
+  (value.role === 'user' || value.role === 'model') &&
+  typeof value.text === 'string' && typeof value.timestamp === 'number';
+
+/** Parses a file produced by `toJson`, throwing if it isn't one. */
+export function parseSessionJson(text: string): SessionDocument {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (parsed?.format !== SESSION_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new Error('File is not a Polyglot session export.');
+  }
+  if (parsed.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`Session export version ${parsed.version} is newer than this app supports.`);
+  }
+  if (!parsed.entries.every(isEntry)) {
+    throw new Error('Session export contains malformed entries.');
+  }
+  return parsed as SessionDocument;
+}
+
+/**
+ * The entries of a parsed export, ready to store under `profileId`. Entries
+ * and sessions get fresh ids so an import never overwrites stored records,
+ * whether they're another profile's or the ones the file was exported from,
+ * and links to source phrases are remapped to match. Exports carry text
+ * only; the PCM stays in the originating browser.
+ */
+export function importedEntries(document: SessionDocument, profileId: string): HistoryEntry[] {
+  const entryIds = new Map(document.entries.map(entry => [entry.id, crypto.randomUUID()]));
+  const sessionIds = new Map<string, string>();
+  const sessionIdFor = (id: string) => {
+    if (!sessionIds.has(id)) sessionIds.set(id, crypto.randomUUID());
+    return sessionIds.get(id)!;
+  };
+  return document.entries.map(entry => ({
+    ...entry,
+    id: entryIds.get(entry.id)!,
+    sessionId: sessionIdFor(entry.sessionId),
+    profileId,
+    sourceLanguage: entry.sourceLanguage ?? null,
+    targetLanguage: entry.targetLanguage ?? null,
+    sourceEntryId: entry.sourceEntryId ? entryIds.get(entry.sourceEntryId) ?? null : null,
+    audio: undefined,
+  }));
+}
+
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,100 @@
+import { SessionMetrics } from '../types';
+
+// Enough sessions for meaningful averages without growing localStorage unbounded.
+const MAX_STORED_SESSIONS = 50;
+export const ROLLING_WINDOW = 20;
+
+const METRICS_FORMAT = 'polyglot-metrics';
+const METRICS_FORMAT_VERSION = 1;
+
+const storageKey = (profileId: string) => `polyglot:metrics:${profileId}`;
+
+export interface MetricsSummary {
+  sessions: number;
+  turns: number;
+  /** Averages in milliseconds; null when nothing was measured. */
+  connectMs: number | null;
+  latencyMs: number | null;
+  turnMs: number | null;
+  /** Per-session averages. */
+  audioSentSeconds: number;
+  audioReceivedSeconds: number;
+  interruptions: number;
+  reconnects: number;
+}
+
+export const createSessionMetrics = (profileId: string, sessionId: string, voice: string, transport: string): SessionMetrics => ({
+  profileId,
+  sessionId,
+  voice,
+  transport,
+  startedAt: Date.now(),
+  endedAt: null,
+  connectMs: null,
+  reconnects: 0,
+  interruptions: 0,
+  audioSentSeconds: 0,
+  audioReceivedSeconds: 0,
+  turns: [],
+});
+
+export function loadSessionMetrics(profileId: string): SessionMetrics[] {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(profileId)) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+/** Appends a finished session to the history, dropping the oldest beyond the cap. */
+export const appendSessionMetrics = (history: SessionMetrics[], session: SessionMetrics): SessionMetrics[] =>
+  [...history, session].slice(-MAX_STORED_SESSIONS);
+
+/** Stores the history; metrics aren't worth failing over, so a full storage quota only warns. */
+export function saveSessionMetrics(profileId: string, history: SessionMetrics[]): void {
+  try {
+    localStorage.setItem(storageKey(profileId), JSON.stringify(history));
+  } catch (err) {
+    console.warn('Could not save session metrics:', err);
+  }
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function summarizeMetrics(sessions: SessionMetrics[]): MetricsSummary {
+  const turns = sessions.flatMap(s => s.turns);
+  const perSession = (pick: (s: SessionMetrics) => number) => average(sessions.map(pick)) ?? 0;
+  return {
+    sessions: sessions.length,
+    turns: turns.length,
+    connectMs: average(sessions.map(s => s.connectMs).filter((v): v is number => v !== null)),
+    latencyMs: average(turns.map(t => t.latencyMs).filter((v): v is number => v !== null)),
+    turnMs: average(turns.map(t => t.durationMs)),
+    audioSentSeconds: perSession(s => s.audioSentSeconds),
+    audioReceivedSeconds: perSession(s => s.audioReceivedSeconds),
+    interruptions: perSession(s => s.interruptions),
+    reconnects: perSession(s => s.reconnects),
+  };
+}
+
+/** Rolling summaries per voice, for comparing them under similar conditions. */
+export function summarizeByVoice(history: SessionMetrics[]): { voice: string; summary: MetricsSummary }[] {
+  const recent = history.slice(-ROLLING_WINDOW);
+  const voices = [...new Set(recent.map(s => s.voice))].sort();
+  return voices.map(voice => ({ voice, summary: summarizeMetrics(recent.filter(s => s.voice === voice)) }));
+}
+
+/** The current session, rolling averages and raw history as a JSON document. */
+export function metricsToJson(current: SessionMetrics | null, history: SessionMetrics[]): string {
+  const recent = history.slice(-ROLLING_WINDOW);
+  return JSON.stringify({
+    format: METRICS_FORMAT,
+    version: METRICS_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    current,
+    rolling: { window: recent.length, summary: summarizeMetrics(recent) },
+    byVoice: summarizeByVoice(history),
+    sessions: history,
+  }, null, 2);
+}
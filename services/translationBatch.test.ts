@@ -0,0 +1,18 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Language } from '../types';
+import { groupByVoice } from './translationBatch';
+
+const language = (code: string): Language => ({ code, name: code, nativeName: code, script: 'Latn', direction: 'ltr' });
+
+describe('groupByVoice', () => {
+  const voices: Record<string, string> = { fr: 'Puck', de: 'Kore', es: 'Puck', it: 'Charon', pt: 'Kore' };
+  const voiceOf = (l: Language) => voices[l.code];
+  const codes = (languages: Language[]) => languages.map(l => l.code);
+
+  it('runs languages sharing a voice together, the current voice first', () => {
+    const languages = ['fr', 'de', 'es', 'it', 'pt'].map(language);
+    assert.deepEqual(codes(groupByVoice(languages, voiceOf, 'Kore')), ['de', 'pt', 'fr', 'es', 'it']);
+    assert.deepEqual(codes(groupByVoice(languages, voiceOf, 'Zephyr')), ['fr', 'es', 'de', 'pt', 'it']);
+  });
+});
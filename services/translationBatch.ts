@@ -0,0 +1,46 @@
+import { Language, TranslationJob } from '../types';
+
+export const createBatch = (languages: Language[]): TranslationJob[] =>
+  languages.map(({ code, name }) => ({ code, name, status: 'queued' }));
+
+export const activeJob = (batch: TranslationJob[]): TranslationJob | undefined =>
+  batch.find(job => job.status === 'translating');
+
+export const isBatchRunning = (batch: TranslationJob[]): boolean =>
+  batch.some(job => job.status === 'queued' || job.status === 'translating');
+
+/**
+ * Settles the translating job as `outcome` (failed when its turn ended
+ * without a translation) and starts the next queued one. Returns the updated
+ * batch and the job that should now be sent, if any.
+ */
+export function advanceBatch(batch: TranslationJob[], outcome: 'done' | 'failed' = 'done'): { batch: TranslationJob[]; next?: TranslationJob } {
+  const nextIndex = batch.findIndex(job => job.status === 'queued');
+  const updated = batch.map((job, i): TranslationJob => {
+    if (job.status === 'translating') return { ...job, status: outcome };
+    if (i === nextIndex) return { ...job, status: 'translating' };
+    return job;
+  });
+  return { batch: updated, next: nextIndex >= 0 ? updated[nextIndex] : undefined };
+}
+
+/**
+ * `languages` reordered so the ones spoken in the same voice run back to
+ * back, starting with `currentVoice`'s: every change of voice costs a new
+ * connection. Otherwise the order is kept.
+ */
+export function groupByVoice(languages: Language[], voiceOf: (language: Language) => string, currentVoice: string): Language[] {
+  const voices = [currentVoice, ...languages.map(voiceOf)];
+  const rank = (language: Language) => voices.indexOf(voiceOf(language));
+  return [...languages].sort((a, b) => rank(a) - rank(b));
+}
+
+/** Drops every job that hasn't been sent yet; the one in flight still finishes. */
+export const cancelQueued = (batch: TranslationJob[]): TranslationJob[] =>
+  batch.map(job => (job.status === 'queued' ? { ...job, status: 'cancelled' } : job));
+
+/** The first job reuses the normal prompt; later ones must point back past the previous translation. */
+export const batchPrompt = (job: TranslationJob, isFirst: boolean): string =>
+  isFirst
+    ? `Translate that to ${job.name}`
+    : `Now translate the same original phrase to ${job.name}`;
@@ -0,0 +1,207 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LiveServerMessage } from '@google/genai';
+import { AppError } from '../types';
+import { HttpStatusError, RELAY_RATE_LIMITED } from './appErrors';
+import { LiveConnectOptions, LiveRealtimeInput, LiveTransport } from './liveTransport';
+import { CompletedTurn, createTranslationSession, TranslationSessionOptions } from './translationSession';
+import { WorkflowEvent } from './translationWorkflow';
+
+interface FakeConnection {
+  options: LiveConnectOptions;
+  sent: LiveRealtimeInput[];
+  toolResponses: unknown[];
+  closed: boolean;
+}
+
+/** A transport whose connections open straight away and are driven by the test; queued `refusals` fail connects instead. */
+function createFakeTransport() {
+  const connections: FakeConnection[] = [];
+  const refusals: unknown[] = [];
+  const transport: LiveTransport = {
+    name: 'fake',
+    async connect(options) {
+      if (refusals.length > 0) throw refusals.shift();
+      const connection: FakeConnection = { options, sent: [], toolResponses: [], closed: false };
+      connections.push(connection);
+      options.callbacks.onopen?.();
+      return {
+        sendRealtimeInput: input => connection.sent.push(input),
+        sendToolResponse: responses => {
+          if (connection.closed) throw new Error('WebSocket is already in CLOSING or CLOSED state.');
+          connection.toolResponses.push(...responses);
+        },
+        close: () => { connection.closed = true; },
+      };
+    },
+  };
+  return { transport, connections, refusals };
+}
+
+function startSession(transport: LiveTransport, options: Partial<TranslationSessionOptions> = {}) {
+  const events: WorkflowEvent['type'][] = [];
+  const turns: CompletedTurn[] = [];
+  const failures: AppError[] = [];
+  const session = createTranslationSession({
+    transport,
+    systemInstruction: 'Translate.',
+    voice: 'Kore',
+    maxPendingAudioBytes: 1000,
+    contextReminder: heard => ` Heard so far: ${heard}`,
+    dispatch: event => events.push(event.type),
+    onTurnComplete: turn => turns.push(turn),
+    onFailed: error => failures.push(error),
+    ...options,
+  });
+  return { session, events, turns, failures };
+}
+
+const deliver = (connection: FakeConnection, message: Partial<LiveServerMessage>) =>
+  connection.options.callbacks.onmessage(message as LiveServerMessage);
+const voiceOf = (connection: FakeConnection) => connection.options.config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName;
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createTranslationSession', () => {
+  it('turns transcripts and tool calls into a completed turn', async () => {
+    const { transport, connections } = createFakeTransport();
+    const { session, events, turns } = startSession(transport);
+    await session.connect();
+    const [connection] = connections;
+    assert.deepEqual(events, ['connected']);
+    assert.equal(voiceOf(connection), 'Kore');
+
+    deliver(connection, { serverContent: { inputTranscription: { text: 'good ' } } });
+    deliver(connection, { serverContent: { inputTranscription: { text: 'morning' } } });
+    deliver(connection, {
+      toolCall: {
+        functionCalls: [{
+          id: 'call-1',
+          name: 'record_translation',
+          args: { sourceLanguage: 'English', sourceText: 'good morning', targetLanguage: 'Spanish', translation: 'buenos días' },
+        }],
+      },
+    });
+    deliver(connection, { serverContent: { outputTranscription: { text: 'buenos días' } } });
+    deliver(connection, { serverContent: { turnComplete: true } });
+    await settle();
+
+    assert.equal(turns.length, 1);
+    assert.equal(turns[0].input, 'good morning');
+    assert.equal(turns[0].output, 'buenos días');
+    assert.equal(turns[0].translation?.targetLanguage, 'Spanish');
+    assert.equal(connection.toolResponses.length, 1);
+
+    deliver(connection, { serverContent: { turnComplete: true } });
+    assert.deepEqual(turns[1], { input: '', output: '', translation: null });
+  });
+
+  it('reconnects after a drop, resuming the conversation and sending what was held', async () => {
+    const { transport, connections } = createFakeTransport();
+    const { session, events } = startSession(transport);
+    await session.connect();
+    deliver(connections[0], { sessionResumptionUpdate: { resumable: true, newHandle: 'handle-1' } });
+
+    connections[0].options.callbacks.onclose?.({ code: 1006, reason: 'abnormal' });
+    assert.equal(session.isOpen, false);
+    session.send({ media: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } });
+    session.send({ audioStreamEnd: true });
+
+    await new Promise(resolve => setTimeout(resolve, 600));
+    assert.equal(connections.length, 2);
+    assert.deepEqual(connections[1].options.config.sessionResumption, { handle: 'handle-1' });
+    assert.equal(connections[1].options.config.systemInstruction, 'Translate.');
+    assert.deepEqual(connections[1].sent, [{ media: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } }, { audioStreamEnd: true }]);
+    assert.deepEqual(events, ['connected', 'connection-lost', 'connected']);
+    session.close();
+  });
+
+  it('drops the oldest audio, never a held request, when too much is held', async () => {
+    const { transport, connections } = createFakeTransport();
+    const { session } = startSession(transport);
+    await session.connect();
+    connections[0].options.callbacks.onclose?.({ code: 1006, reason: 'abnormal' });
+
+    // 750 bytes of PCM each, against a cap of 1000.
+    const chunk = (fill: string) => ({ media: { data: fill.repeat(1000), mimeType: 'audio/pcm;rate=16000' } });
+    session.send(chunk('A'));
+    session.send({ text: 'Translate that to French' });
+    session.send(chunk('B'));
+
+    await new Promise(resolve => setTimeout(resolve, 600));
+    assert.deepEqual(connections[1].sent, [{ text: 'Translate that to French' }, chunk('B')]);
+    session.close();
+  });
+
+  it('waits out the relay rate limit when switching voice', async () => {
+    const { transport, connections, refusals } = createFakeTransport();
+    const { session, events, failures } = startSession(transport);
+    await session.connect();
+    refusals.push(new HttpStatusError('Too many sessions started.', 429, RELAY_RATE_LIMITED, 0.7));
+
+    session.switchVoice('Puck');
+    await new Promise(resolve => setTimeout(resolve, 400));
+    assert.equal(connections.length, 1);
+    await new Promise(resolve => setTimeout(resolve, 400));
+    assert.equal(connections.length, 2);
+    assert.equal(voiceOf(connections[1]), 'Puck');
+    assert.deepEqual(events, ['connected', 'connection-lost', 'connected']);
+    assert.deepEqual(failures, []);
+    session.close();
+  });
+
+  it('reconnects when a tool response can no longer be sent', async () => {
+    const { transport, connections } = createFakeTransport();
+    const { session, events, failures } = startSession(transport);
+    await session.connect();
+    connections[0].closed = true;
+    deliver(connections[0], { toolCall: { functionCalls: [{ id: 'call-1', name: 'record_translation', args: {} }] } });
+
+    await new Promise(resolve => setTimeout(resolve, 600));
+    assert.equal(connections.length, 2);
+    assert.deepEqual(events, ['connected', 'connection-lost', 'connected']);
+    assert.deepEqual(failures, []);
+    session.close();
+  });
+
+  it('gives up at once when the credentials are rejected', async () => {
+    const { transport, connections } = createFakeTransport();
+    const { session, events, failures } = startSession(transport);
+    await session.connect();
+    connections[0].options.callbacks.onerror?.(new Error('API key not valid'));
+
+    assert.deepEqual(events, ['connected', 'failed']);
+    assert.equal(failures[0]?.kind, 'auth-invalid');
+    await new Promise(resolve => setTimeout(resolve, 600));
+    assert.equal(connections.length, 1);
+  });
+
+  it('switches voice on a fresh connection that restates the context', async () => {
+    const { transport, connections } = createFakeTransport();
+    const switching: (string | null)[] = [];
+    const { session, turns } = startSession(transport, { onSwitchingVoice: voice => switching.push(voice) });
+    await session.connect();
+    deliver(connections[0], { sessionResumptionUpdate: { resumable: true, newHandle: 'handle-1' } });
+    deliver(connections[0], { serverContent: { inputTranscription: { text: 'where is' } } });
+
+    session.switchVoice('Puck');
+    session.send({ text: 'Translate into French.' });
+    assert.equal(session.voice, 'Puck');
+    await settle();
+
+    const [old, next] = connections;
+    assert.ok(old.closed);
+    assert.equal(voiceOf(next), 'Puck');
+    assert.deepEqual(next.options.config.sessionResumption, {});
+    assert.equal(next.options.config.systemInstruction, 'Translate. Heard so far: where is');
+    assert.deepEqual(next.sent, [{ text: 'Translate into French.' }]);
+    // Every connection that opens clears the switch, the first one included.
+    assert.deepEqual(switching, [null, 'Puck', null]);
+
+    // The retired connection's late messages and close are ignored.
+    deliver(old, { serverContent: { turnComplete: true } });
+    old.options.callbacks.onclose?.({ code: 1000, reason: '' });
+    assert.equal(turns.length, 0);
+    assert.equal(connections.length, 2);
+    session.close();
+  });
+});
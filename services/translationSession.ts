@@ -0,0 +1,270 @@
+import { LiveServerMessage, Modality } from '@google/genai';
+import { AppError, TranslationResult } from '../types';
+import { classifyError, connectionLostError, isRetryableSessionError, relayRetryAfterMs } from './appErrors';
+import { LIVE_MODEL, LiveRealtimeInput, LiveSession, LiveTransport } from './liveTransport';
+import { MAX_RECONNECT_ATTEMPTS, reconnectDelay } from './reconnectPolicy';
+import { parseTranslationCall, RECORD_TRANSLATION_TOOL, toolResponse } from './translationTool';
+import { WorkflowEvent } from './translationWorkflow';
+
+/** Why a connection is being opened: the session's first, a recovery from a drop, or a change of voice. */
+export type ConnectKind = 'initial' | 'reconnect' | 'voice-switch';
+
+/** What one model turn heard and said, with the translation it reported through the tool, if any. */
+export interface CompletedTurn {
+  input: string;
+  output: string;
+  translation: TranslationResult | null;
+}
+
+export interface TranslationSessionOptions {
+  transport: LiveTransport;
+  systemInstruction: string;
+  /** The voice the first connection speaks with. */
+  voice: string;
+  /** Audio held while no connection is open, in bytes; the oldest is dropped first. Text is always kept. */
+  maxPendingAudioBytes: number;
+  /**
+   * Appended to the system instruction of a connection that can't resume the
+   * previous one, given what had been heard of the turn in progress.
+   */
+  contextReminder: (heardSoFar: string) => string;
+  /** Receives the workflow events the connection drives: connected, connection-lost and failed. */
+  dispatch: (event: WorkflowEvent) => void;
+  onOpen?: (kind: ConnectKind, connectMs: number) => void;
+  /** The voice a new connection is being opened for, or null once it's open or abandoned. */
+  onSwitchingVoice?: (voice: string | null) => void;
+  /** A base64 chunk of 24 kHz model speech. */
+  onModelAudio?: (data: string) => void;
+  /** The user talked over the model. */
+  onInterrupted?: () => void;
+  onTurnComplete: (turn: CompletedTurn) => void;
+  /** Each input as it actually goes out on a connection. */
+  onInputSent?: (input: LiveRealtimeInput) => void;
+  /** The session gave up; its connection is already closed by the time this is called. */
+  onFailed: (error: AppError) => void;
+}
+
+/**
+ * A translation session over however many live connections it takes: it
+ * reconnects after drops, reopens with another voice on request, and turns
+ * server messages into completed turns and workflow events.
+ */
+export interface TranslationSession {
+  /** Opens the first connection; rejects if that fails. */
+  connect(): Promise<void>;
+  /** Sends input on the open connection, or holds it until one is open. */
+  send(input: LiveRealtimeInput): void;
+  /** Whether a connection is open right now. */
+  readonly isOpen: boolean;
+  /** The voice of the current connection, or of the one being opened. */
+  readonly voice: string;
+  /** Replaces the connection with one speaking in `voice`, restating the context. */
+  switchVoice(voice: string): void;
+  /** Closes the connection for good. */
+  close(): void;
+}
+
+/** Size of the 16 kHz PCM carried by a realtime input, from its base64 length. */
+export const mediaBytes = (input: LiveRealtimeInput) => ('media' in input ? (input.media.data.length * 3) / 4 : 0);
+
+export function createTranslationSession(options: TranslationSessionOptions): TranslationSession {
+  const { transport, dispatch } = options;
+  let session: LiveSession | null = null;
+  let voice = options.voice;
+  let closed = false;
+  // Identifies the current connection; callbacks from any older one are ignored.
+  let connectionId = 0;
+  // Consecutive failed connection attempts; reset whenever a connection opens.
+  let failures = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Latest handle from the server for resuming this conversation on a new connection.
+  let resumptionHandle: string | null = null;
+  let pending: { inputs: LiveRealtimeInput[]; bytes: number } = { inputs: [], bytes: 0 };
+  let transcript = { input: '', output: '' };
+  let turnTranslation: TranslationResult | null = null;
+
+  const sendNow = (target: LiveSession, input: LiveRealtimeInput) => {
+    target.sendRealtimeInput(input);
+    options.onInputSent?.(input);
+  };
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    connectionId++;
+    clearReconnectTimer();
+    pending = { inputs: [], bytes: 0 };
+    try { session?.close(); } catch (e) {}
+    session = null;
+  };
+
+  const scheduleReconnect = (reason: unknown) => {
+    session = null;
+    failures++;
+    const error = classifyError(reason, 'session');
+    // A rejected key or exhausted quota won't fix itself by reconnecting, but the relay
+    // turning away a token request mid-session only means waiting as long as it asks.
+    const retryAfterMs = relayRetryAfterMs(reason);
+    const retryable = retryAfterMs !== null || isRetryableSessionError(error.kind);
+    if (!retryable || failures > MAX_RECONNECT_ATTEMPTS) {
+      close();
+      options.onFailed(retryable ? connectionLostError(reason) : error);
+      dispatch({ type: 'failed' });
+      return;
+    }
+    dispatch({ type: 'connection-lost' });
+    options.onSwitchingVoice?.(null);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      open('reconnect');
+    }, Math.max(retryAfterMs ?? 0, reconnectDelay(failures)));
+  };
+
+  const handleMessage = (message: LiveServerMessage, sessionPromise: Promise<LiveSession>, handleDrop: (reason: unknown) => void) => {
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) resumptionHandle = resumption.newHandle;
+
+    const content = message.serverContent;
+    if (content?.inputTranscription) transcript.input += content.inputTranscription.text ?? '';
+    if (content?.outputTranscription) transcript.output += content.outputTranscription.text ?? '';
+
+    if (message.toolCall?.functionCalls) {
+      const responses = message.toolCall.functionCalls.map(call => {
+        const result = parseTranslationCall(call);
+        if (result) turnTranslation = result;
+        return toolResponse(call, result);
+      });
+      // A connection that failed, or closed before the answer went out, is dropped like any other.
+      sessionPromise.then(opened => opened.sendToolResponse(responses)).catch(handleDrop);
+    }
+
+    if (content?.turnComplete) {
+      const turn: CompletedTurn = { ...transcript, translation: turnTranslation };
+      transcript = { input: '', output: '' };
+      turnTranslation = null;
+      options.onTurnComplete(turn);
+    }
+
+    const audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (audio) options.onModelAudio?.(audio);
+
+    if (content?.interrupted) options.onInterrupted?.();
+  };
+
+  const open = async (kind: ConnectKind) => {
+    const isReconnect = kind !== 'initial';
+    const id = ++connectionId;
+    const isCurrent = () => id === connectionId;
+    const handle = resumptionHandle;
+    const startedAt = performance.now();
+    let dropped = false;
+    const handleDrop = (reason: unknown) => {
+      if (dropped || !isCurrent()) return;
+      dropped = true;
+      scheduleReconnect(reason);
+    };
+
+    const sessionPromise = transport.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        // A resumed session already has the context; a fresh replacement needs reminding of it.
+        systemInstruction: isReconnect && !handle
+          ? options.systemInstruction + options.contextReminder(transcript.input)
+          : options.systemInstruction,
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+        },
+        outputAudioTranscription: {},
+        inputAudioTranscription: {},
+        tools: [{ functionDeclarations: [RECORD_TRANSLATION_TOOL] }],
+        sessionResumption: handle ? { handle } : {},
+      },
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          failures = 0;
+          options.onSwitchingVoice?.(null);
+          dispatch({ type: 'connected' });
+          options.onOpen?.(kind, Math.round(performance.now() - startedAt));
+        },
+        onmessage: message => {
+          if (isCurrent()) handleMessage(message, sessionPromise, handleDrop);
+        },
+        onerror: error => {
+          console.error("Session Error:", error);
+          handleDrop(error);
+        },
+        onclose: event => {
+          console.log("Session Closed:", event);
+          handleDrop(event);
+        },
+      },
+    });
+
+    try {
+      const opened = await sessionPromise;
+      if (!isCurrent()) {
+        opened.close();
+        return;
+      }
+      session = opened;
+      // Send whatever was captured while no connection was open.
+      const held = pending;
+      pending = { inputs: [], bytes: 0 };
+      held.inputs.forEach(input => sendNow(opened, input));
+    } catch (error) {
+      if (!isReconnect) throw error;
+      console.error("Reconnect Error:", error);
+      handleDrop(error);
+    }
+  };
+
+  return {
+    connect: () => open('initial'),
+
+    send(input) {
+      if (closed) return;
+      if (session) {
+        sendNow(session, input);
+        return;
+      }
+      pending.inputs.push(input);
+      pending.bytes += mediaBytes(input);
+      // Only audio counts towards the cap, so a held request can't be trimmed away by the speech after it.
+      while (pending.bytes > options.maxPendingAudioBytes) {
+        const oldest = pending.inputs.findIndex(held => 'media' in held);
+        pending.bytes -= mediaBytes(pending.inputs.splice(oldest, 1)[0]);
+      }
+    },
+
+    get isOpen() {
+      return session !== null;
+    },
+
+    get voice() {
+      return voice;
+    },
+
+    switchVoice(next) {
+      if (closed || next === voice) return;
+      voice = next;
+      // A resumed session would keep the old voice, so start afresh with the context restated.
+      resumptionHandle = null;
+      clearReconnectTimer();
+      const previous = session;
+      session = null;
+      options.onSwitchingVoice?.(next);
+      // `open` retires the old connection's callbacks before its close event can arrive.
+      open('voice-switch');
+      try { previous?.close(); } catch (e) {}
+    },
+
+    close,
+  };
+}
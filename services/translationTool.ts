@@ -0,0 +1,51 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { TranslationResult } from '../types';
+import { findLanguage } from './languageCatalog';
+
+export const RECORD_TRANSLATION = 'record_translation';
+
+/** Declared on the live session so every translation also arrives as data. */
+export const RECORD_TRANSLATION_TOOL: FunctionDeclaration = {
+  name: RECORD_TRANSLATION,
+  description: 'Records a translation you are about to speak. Call it exactly once per translation, before speaking it. Never call it for confirmations, questions or other remarks.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      sourceLanguage: { type: Type.STRING, description: 'English name of the language the phrase was spoken in, e.g. "English".' },
+      sourceText: { type: Type.STRING, description: 'The phrase being translated, as spoken.' },
+      targetLanguage: { type: Type.STRING, description: 'English name of the language translated into, e.g. "Telugu".' },
+      translation: { type: Type.STRING, description: 'The translation in the native script of the target language.' },
+      romanization: { type: Type.STRING, description: 'Latin-script transliteration of the translation, when the target language uses another script.' },
+    },
+    required: ['sourceLanguage', 'sourceText', 'targetLanguage', 'translation'],
+  },
+};
+
+export const TRANSLATION_TOOL_INSTRUCTION = `
+Whenever you translate, first call the \`${RECORD_TRANSLATION}\` tool with the source language, source text, target language, translation and, for non-Latin scripts, a romanization. Then speak the translation. Do not call the tool for anything other than translations.
+`;
+
+const canonicalName = (language: string) => findLanguage(language)?.name ?? language.trim();
+
+/** Validates a `record_translation` call; returns null for other or malformed calls. */
+export function parseTranslationCall(call: FunctionCall): TranslationResult | null {
+  if (call.name !== RECORD_TRANSLATION || !call.args) return null;
+  const { sourceLanguage, sourceText, targetLanguage, translation, romanization } = call.args;
+  if (typeof sourceLanguage !== 'string' || typeof sourceText !== 'string' ||
+      typeof targetLanguage !== 'string' || typeof translation !== 'string') {
+    return null;
+  }
+  return {
+    sourceLanguage: canonicalName(sourceLanguage),
+    sourceText: sourceText.trim(),
+    targetLanguage: canonicalName(targetLanguage),
+    translation: translation.trim(),
+    ...(typeof romanization === 'string' && romanization.trim() ? { romanization: romanization.trim() } : {}),
+  };
+}
+
+export const toolResponse = (call: FunctionCall, result: TranslationResult | null): FunctionResponse => ({
+  id: call.id,
+  name: call.name,
+  response: result ? { result: 'recorded' } : { error: 'Unrecognized or malformed call.' },
+});
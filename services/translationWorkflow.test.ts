@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SessionStatus } from '../types';
+import { INITIAL_WORKFLOW, sessionStatus, showsLanguageMenu, transitionWorkflow, WorkflowEvent, WorkflowState } from './translationWorkflow';
+
+const run = (events: WorkflowEvent[], from: WorkflowState = INITIAL_WORKFLOW) => events.reduce(transitionWorkflow, from);
+
+const translateSession = run([{ type: 'start', mode: 'translate' }, { type: 'connected' }]);
+const interpreterSession = run([{ type: 'start', mode: 'interpreter' }, { type: 'connected' }]);
+
+describe('transitionWorkflow', () => {
+  it('connects into listening', () => {
+    const connecting = run([{ type: 'start', mode: 'translate' }]);
+    assert.equal(connecting.phase, 'connecting');
+    assert.equal(sessionStatus(connecting.phase), SessionStatus.CONNECTING);
+    assert.equal(translateSession.phase, 'listening');
+    assert.equal(sessionStatus(translateSession.phase), SessionStatus.CONNECTED);
+  });
+
+  it('walks translate mode through choosing a language and the follow-up', () => {
+    const recorded = run([{ type: 'phrase-recorded' }], translateSession);
+    assert.equal(recorded.phase, 'awaiting-language');
+    assert.ok(showsLanguageMenu(recorded));
+    const translating = run([{ type: 'language-requested' }], recorded);
+    assert.equal(translating.phase, 'translating');
+    const followUp = run([{ type: 'turn-complete', translated: true }], translating);
+    assert.equal(followUp.phase, 'follow-up');
+    assert.equal(run([{ type: 'dismiss' }], followUp).phase, 'listening');
+  });
+
+  it('goes back to choosing a language when the model answers without translating', () => {
+    const state = run([{ type: 'phrase-recorded' }, { type: 'language-requested' }, { type: 'turn-complete', translated: false }], translateSession);
+    assert.equal(state.phase, 'awaiting-language');
+  });
+
+  it('translates straight away in interpreter mode and never shows the language menu', () => {
+    const translating = run([{ type: 'phrase-recorded' }], interpreterSession);
+    assert.equal(translating.phase, 'translating');
+    assert.ok(!showsLanguageMenu(translating));
+    assert.equal(run([{ type: 'turn-complete', translated: true }], translating).phase, 'listening');
+  });
+
+  it('resumes the interrupted phase after reconnecting', () => {
+    const awaiting = run([{ type: 'phrase-recorded' }], translateSession);
+    const reconnecting = run([{ type: 'connection-lost' }], awaiting);
+    assert.equal(reconnecting.phase, 'reconnecting');
+    assert.equal(sessionStatus(reconnecting.phase), SessionStatus.RECONNECTING);
+    // Transcripts and turns from a dead connection don't move the workflow.
+    assert.equal(run([{ type: 'phrase-recorded' }, { type: 'turn-complete', translated: true }], reconnecting), reconnecting);
+    const resumed = run([{ type: 'connected' }], reconnecting);
+    assert.equal(resumed.phase, 'awaiting-language');
+    assert.equal(resumed.resumePhase, null);
+  });
+
+  it('ends in error on failure, and can start again from there', () => {
+    const failed = run([{ type: 'connection-lost' }, { type: 'stop' }, { type: 'failed' }], translateSession);
+    assert.equal(failed.phase, 'error');
+    assert.equal(sessionStatus(failed.phase), SessionStatus.ERROR);
+    assert.equal(run([{ type: 'start', mode: 'interpreter' }], failed).mode, 'interpreter');
+  });
+
+  it('sets translation aside while practicing', () => {
+    const practicing = run([{ type: 'phrase-recorded' }, { type: 'practice-started' }], translateSession);
+    assert.equal(practicing.phase, 'practicing');
+    assert.equal(sessionStatus(practicing.phase), SessionStatus.CONNECTED);
+    assert.ok(!showsLanguageMenu(practicing));
+    assert.equal(run([{ type: 'phrase-recorded' }, { type: 'language-requested' }], practicing), practicing);
+    assert.equal(run([{ type: 'practice-ended' }], practicing).phase, 'listening');
+  });
+
+  it('leaves practice for good when it ends during a reconnect', () => {
+    const reconnecting = run([{ type: 'practice-started' }, { type: 'connection-lost' }, { type: 'practice-ended' }], translateSession);
+    assert.equal(reconnecting.phase, 'reconnecting');
+    assert.equal(run([{ type: 'connected' }], reconnecting).phase, 'listening');
+  });
+
+  it('ignores a second start while a session is running', () => {
+    assert.equal(run([{ type: 'start', mode: 'interpreter' }], translateSession), translateSession);
+  });
+});
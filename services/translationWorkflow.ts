@@ -0,0 +1,121 @@
+import { SessionMode, SessionStatus } from '../types';
+
+/**
+ * Where the user is in a session. Translate mode goes listening →
+ * awaiting-language → translating → follow-up; interpreter mode translates
+ * every phrase straight away, so it skips choosing a language and returns to
+ * listening after each translation. Practicing a saved phrase sets the
+ * translation workflow aside until the model acknowledges the end of practice.
+ */
+export type WorkflowPhase =
+  | 'idle'
+  | 'connecting'
+  | 'listening'
+  | 'awaiting-language'
+  | 'translating'
+  | 'follow-up'
+  | 'practicing'
+  | 'reconnecting'
+  | 'error';
+
+/** Phases with an open connection. */
+export type ConnectedPhase = Extract<WorkflowPhase, 'listening' | 'awaiting-language' | 'translating' | 'follow-up' | 'practicing'>;
+
+export interface WorkflowState {
+  phase: WorkflowPhase;
+  mode: SessionMode;
+  /** The phase to return to once a dropped connection is back. */
+  resumePhase: ConnectedPhase | null;
+}
+
+export type WorkflowEvent =
+  | { type: 'start'; mode: SessionMode }
+  | { type: 'connected' }
+  | { type: 'connection-lost' }
+  | { type: 'failed' }
+  | { type: 'stop' }
+  /** A new source phrase was spoken or typed. */
+  | { type: 'phrase-recorded' }
+  /** The user picked a target language, or a batch moved to its next one. */
+  | { type: 'language-requested' }
+  /** The model finished its turn; `translated` when the turn produced a translation. */
+  | { type: 'turn-complete'; translated: boolean }
+  /** The user closed the language menu without translating (further). */
+  | { type: 'dismiss' }
+  /** The user started practicing a saved phrase. */
+  | { type: 'practice-started' }
+  /** The model acknowledged the end of practice, or the session was gone by then. */
+  | { type: 'practice-ended' };
+
+export const INITIAL_WORKFLOW: WorkflowState = { phase: 'idle', mode: 'translate', resumePhase: null };
+
+const CONNECTED_PHASES: WorkflowPhase[] = ['listening', 'awaiting-language', 'translating', 'follow-up', 'practicing'];
+
+export const isConnectedPhase = (phase: WorkflowPhase): phase is ConnectedPhase => CONNECTED_PHASES.includes(phase);
+
+// Practice attempts aren't phrases to translate, so the translation events pass it by.
+const isTranslatingPhase = (phase: WorkflowPhase) => isConnectedPhase(phase) && phase !== 'practicing';
+
+/** Connected or reconnecting: the session is running, whatever the state of the link. */
+export const isLivePhase = (phase: WorkflowPhase): boolean => isConnectedPhase(phase) || phase === 'reconnecting';
+
+/** Whether the target-language menu should be on screen. */
+export const showsLanguageMenu = (state: WorkflowState): boolean =>
+  state.mode === 'translate' && (state.phase === 'awaiting-language' || state.phase === 'translating' || state.phase === 'follow-up');
+
+/** The connection-level view of the workflow, for status displays and diagnostics. */
+export function sessionStatus(phase: WorkflowPhase): SessionStatus {
+  if (isConnectedPhase(phase)) return SessionStatus.CONNECTED;
+  switch (phase) {
+    case 'connecting': return SessionStatus.CONNECTING;
+    case 'reconnecting': return SessionStatus.RECONNECTING;
+    case 'error': return SessionStatus.ERROR;
+    default: return SessionStatus.IDLE;
+  }
+}
+
+const enter = (state: WorkflowState, phase: WorkflowPhase): WorkflowState =>
+  phase === state.phase ? state : { ...state, phase };
+
+/**
+ * The next state after `event`. Events that make no sense in the current
+ * phase, such as a transcript arriving while reconnecting, leave it unchanged.
+ */
+export function transitionWorkflow(state: WorkflowState, event: WorkflowEvent): WorkflowState {
+  const { phase, mode } = state;
+  switch (event.type) {
+    case 'start':
+      return phase === 'idle' || phase === 'error'
+        ? { phase: 'connecting', mode: event.mode, resumePhase: null }
+        : state;
+    case 'connected':
+      if (phase === 'connecting') return enter(state, 'listening');
+      if (phase === 'reconnecting') return { ...state, phase: state.resumePhase ?? 'listening', resumePhase: null };
+      return state;
+    case 'connection-lost':
+      return isConnectedPhase(phase) ? { ...state, phase: 'reconnecting', resumePhase: phase } : state;
+    case 'failed':
+      return { ...state, phase: 'error', resumePhase: null };
+    case 'stop':
+      return phase === 'idle' ? state : { ...state, phase: 'idle', resumePhase: null };
+    case 'phrase-recorded':
+      if (!isTranslatingPhase(phase)) return state;
+      return enter(state, mode === 'interpreter' ? 'translating' : 'awaiting-language');
+    case 'language-requested':
+      return isTranslatingPhase(phase) ? enter(state, 'translating') : state;
+    case 'turn-complete':
+      if (!isTranslatingPhase(phase)) return state;
+      if (event.translated) return enter(state, mode === 'interpreter' ? 'listening' : 'follow-up');
+      // The model answered without translating, most likely to ask which language was meant.
+      if (phase === 'translating') return enter(state, mode === 'interpreter' ? 'listening' : 'awaiting-language');
+      return state;
+    case 'dismiss':
+      return phase === 'awaiting-language' || phase === 'follow-up' ? enter(state, 'listening') : state;
+    case 'practice-started':
+      return isConnectedPhase(phase) ? enter(state, 'practicing') : state;
+    case 'practice-ended':
+      if (phase === 'practicing') return enter(state, 'listening');
+      // Practice ended while the link was down; don't go back to it once it's up.
+      return state.resumePhase === 'practicing' ? { ...state, resumePhase: 'listening' } : state;
+  }
+}
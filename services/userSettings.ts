@@ -0,0 +1,40 @@
+import { UserSettings } from '../types';
+import { DEFAULT_QUICK_TILES } from './languageCatalog';
+import { DEFAULT_VOICE } from './voiceCatalog';
+
+const MAX_RECENTS = 6;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  quickTiles: DEFAULT_QUICK_TILES,
+  favorites: [],
+  recents: [],
+  sessionMode: 'translate',
+  interpreterPair: ['en', 'hi'],
+  activeGlossaryId: null,
+  inputGate: { mode: 'always', vadThresholdDb: -45, vadHangoverMs: 800 },
+  micEnabled: true,
+  voices: { defaultVoice: DEFAULT_VOICE, byLanguage: {} },
+  audio: { inputDeviceId: null, outputDeviceId: null, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+};
+
+const storageKey = (profileId: string) => `polyglot:settings:${profileId}`;
+
+/** Reads a profile's settings, falling back to defaults for anything missing. */
+export function loadUserSettings(profileId: string): UserSettings {
+  try {
+    const raw = localStorage.getItem(storageKey(profileId));
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveUserSettings(profileId: string, settings: UserSettings): void {
+  localStorage.setItem(storageKey(profileId), JSON.stringify(settings));
+}
+
+export const withRecent = (recents: string[], code: string): string[] =>
+  [code, ...recents.filter(c => c !== code)].slice(0, MAX_RECENTS);
+
+export const toggleCode = (codes: string[], code: string): string[] =>
+  codes.includes(code) ? codes.filter(c => c !== code) : [...codes, code];
@@ -0,0 +1,77 @@
+import { Modality } from '@google/genai';
+import { Language } from '../types';
+import { concatBytes, decode } from '../utils';
+import { LIVE_MODEL, LiveSession, LiveTransport } from './liveTransport';
+
+// Long enough for a slow token fetch plus a sentence of audio.
+const AUDITION_TIMEOUT_MS = 20000;
+
+const AUDITION_INSTRUCTION = 'You read sample lines for a voice picker. Say exactly what you are asked to say, once, with nothing before or after it.';
+
+// Samples are 24 kHz PCM and cost a live session each, so they're kept for the page's lifetime.
+const samples = new Map<string, Promise<Uint8Array>>();
+
+function sampleLine(voice: string, language: Language | undefined): string {
+  return language
+    ? `Say, in ${language.name}: "Hello, I'm ${voice}. This is how your ${language.name} translations will sound."`
+    : `Say: "Hello, I'm ${voice}. This is how your translations will sound."`;
+}
+
+function recordSample(transport: LiveTransport, voice: string, language: Language | undefined): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let session: LiveSession | null = null;
+    let settled = false;
+    const finish = (error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      session?.close();
+      if (error) reject(error);
+      else if (chunks.length === 0) reject(new Error('No audio came back for the voice sample.'));
+      else resolve(concatBytes(chunks));
+    };
+    const timer = setTimeout(() => finish(new Error('The voice sample took too long to arrive.')), AUDITION_TIMEOUT_MS);
+
+    transport.connect({
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction: AUDITION_INSTRUCTION,
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+      },
+      callbacks: {
+        onmessage: message => {
+          const data = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (data) chunks.push(decode(data));
+          if (message.serverContent?.turnComplete) finish();
+        },
+        onerror: error => finish(error),
+        onclose: event => finish(chunks.length > 0 ? undefined : new Error(`Voice sample connection closed: ${event.reason || event.code}`)),
+      },
+    }).then(opened => {
+      // Timed out before the connection opened.
+      if (settled) {
+        opened.close();
+        return;
+      }
+      session = opened;
+      opened.sendRealtimeInput({ text: sampleLine(voice, language) });
+    }, finish);
+  });
+}
+
+/**
+ * A short spoken sample of `voice`, in `language` when given, as 24 kHz
+ * 16-bit PCM. Failed attempts aren't cached, so they can be retried.
+ */
+export function auditionVoice(transport: LiveTransport, voice: string, language?: Language): Promise<Uint8Array> {
+  const key = `${transport.name}:${voice}:${language?.code ?? ''}`;
+  let sample = samples.get(key);
+  if (!sample) {
+    sample = recordSample(transport, voice, language);
+    samples.set(key, sample);
+    sample.catch(() => samples.delete(key));
+  }
+  return sample;
+}
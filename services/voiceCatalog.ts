@@ -0,0 +1,32 @@
+import { VoiceProfile } from '../types';
+import { findLanguage } from './languageCatalog';
+
+export interface VoiceOption {
+  name: string;
+  /** Gemini's own one-word character for the voice. */
+  description: string;
+}
+
+export const VOICES: VoiceOption[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Zephyr', description: 'Bright' },
+];
+
+export const DEFAULT_VOICE = 'Kore';
+
+/** The voice for translations into `language` (a code or English name): its mapped voice, else the default. */
+export function voiceForLanguage(profile: VoiceProfile, language: string | null): string {
+  const code = findLanguage(language)?.code;
+  return (code && profile.byLanguage[code]) || profile.defaultVoice;
+}
+
+/** `profile` with `language` mapped to `voice`, or unmapped when `voice` is null. */
+export function withLanguageVoice(profile: VoiceProfile, code: string, voice: string | null): VoiceProfile {
+  const byLanguage = { ...profile.byLanguage };
+  if (voice) byLanguage[code] = voice;
+  else delete byLanguage[code];
+  return { ...profile, byLanguage };
+}
@@ -9,5 +9,287 @@ export enum SessionStatus {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  /** The link dropped mid-session and is being re-established. */
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
+
+/** Where in the pipeline a failure happened. */
+export type ErrorStage = 'microphone' | 'audio' | 'relay' | 'session' | 'file' | 'storage';
+
+export type AppErrorKind =
+  | 'mic-permission-denied'
+  | 'mic-not-found'
+  | 'mic-in-use'
+  | 'insecure-context'
+  | 'audio-unavailable'
+  | 'auth-invalid'
+  | 'quota-exceeded'
+  | 'model-unavailable'
+  | 'network'
+  | 'connection-lost'
+  | 'file-unreadable'
+  | 'storage-unavailable'
+  | 'unknown';
+
+/** What the user can do about an error. */
+export type RecoveryAction = 'retry' | 'permissions-help' | 'choose-device';
+
+/** A classified failure, ready to show and to report. */
+export interface AppError {
+  kind: AppErrorKind;
+  stage: ErrorStage;
+  /** User-facing explanation. */
+  message: string;
+  actions: RecoveryAction[];
+  /** Whether the session carries on despite the error (e.g. typing without a mic). */
+  recoverable: boolean;
+  /** Technical description of the underlying error, for the diagnostics report. */
+  detail: string;
+  occurredAt: number;
+}
+
+export interface UserProfile {
+  /** Stable identifier from the identity provider. */
+  id: string;
+  name: string;
+  /** Keys the user's history, settings and glossaries. */
+  email: string;
+  avatar: string;
+}
+
+/** A signed-in user and the credentials that prove it. */
+export interface AuthSession {
+  /** Id of the provider that issued the session. */
+  provider: string;
+  user: UserProfile;
+  accessToken: string;
+  refreshToken: string | null;
+  /** Epoch ms after which the access token must be refreshed. */
+  expiresAt: number;
+}
+
+/** A transcript entry as persisted in the local history database. */
+export interface HistoryEntry extends TranscriptionEntry {
+  id: string;
+  /** Email of the signed-in profile that owns the entry. */
+  profileId: string;
+  sessionId: string;
+  /** Spoken language of the phrase, or null when it hasn't been identified. */
+  sourceLanguage: string | null;
+  /** Language a model entry translates into; null for user phrases and prompts. */
+  targetLanguage: string | null;
+  /** For translations, the id of the user phrase they translate. */
+  sourceEntryId: string | null;
+  /** Present when the entry's PCM audio is stored alongside it. */
+  audio?: EntryAudioInfo;
+  /** In interpreter mode, which side of the conversation spoke. */
+  speaker?: Speaker;
+  /** Set on model entries that carry a translation; prompts and follow-ups have none. */
+  translation?: TranslationResult;
+  /** Glossary terms the translation failed to honor. */
+  glossaryViolations?: GlossaryViolation[];
+}
+
+/** The two participants of an interpreter-mode conversation. */
+export type Speaker = 'A' | 'B';
+
+/**
+ * `translate` is the record → confirm → pick language → follow-up workflow;
+ * `interpreter` translates every utterance straight into the other language
+ * of a fixed pair.
+ */
+export type SessionMode = 'translate' | 'interpreter';
+
+export interface EntryAudioInfo {
+  sampleRate: number;
+  durationMs: number;
+}
+
+export interface HistoryQuery {
+  profileId: string;
+  /** Whitespace-separated terms that must all appear in the entry text. */
+  text?: string;
+  language?: string;
+  from?: number;
+  to?: number;
+}
+
+export interface Language {
+  /** BCP-47 language tag. */
+  code: string;
+  /** English name; this is what the model is asked to translate into. */
+  name: string;
+  nativeName: string;
+  /** ISO 15924 script code, as understood by `\p{Script=...}` regexes. */
+  script: string;
+  direction: 'ltr' | 'rtl';
+}
+
+/** How microphone audio is gated before it is streamed. */
+export type InputGateMode = 'always' | 'vad' | 'ptt';
+
+export interface InputGateSettings {
+  mode: InputGateMode;
+  /** Chunks at or above this RMS level (dBFS) count as speech in `vad` mode. */
+  vadThresholdDb: number;
+  /** How long the gate stays open after the last chunk of speech. */
+  vadHangoverMs: number;
+}
+
+/** Which devices to use and how the browser should process mic audio. */
+export interface AudioDeviceSettings {
+  /** `deviceId` of the microphone; null for the system default. */
+  inputDeviceId: string | null;
+  /** `deviceId` of the speaker or headset; null for the system default. */
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+/** Which prebuilt voice speaks translations. */
+export interface VoiceProfile {
+  defaultVoice: string;
+  /** Preferred voice per target language, keyed by BCP-47 code. */
+  byLanguage: Record<string, string>;
+}
+
+/** Preferences saved per signed-in profile. */
+export interface UserSettings {
+  /** Language codes shown as tiles on the language panel. */
+  quickTiles: string[];
+  /** Language codes pinned to the top of the picker. */
+  favorites: string[];
+  /** Most recently used language codes, newest first. */
+  recents: string[];
+  sessionMode: SessionMode;
+  /** Language codes spoken by speaker A and speaker B in interpreter mode. */
+  interpreterPair: [string, string];
+  /** Glossary injected into new sessions, if any. */
+  activeGlossaryId: string | null;
+  inputGate: InputGateSettings;
+  /** When off, sessions start without the microphone and phrases are typed. */
+  micEnabled: boolean;
+  audio: AudioDeviceSettings;
+  voices: VoiceProfile;
+}
+
+export type TranslationJobStatus = 'queued' | 'translating' | 'done' | 'failed' | 'cancelled';
+
+/** One target language in a multi-language batch for the same phrase. */
+export interface TranslationJob {
+  code: string;
+  name: string;
+  status: TranslationJobStatus;
+}
+
+/** An uploaded recording being streamed into the live session. */
+export interface AudioFileJob {
+  fileName: string;
+  status: 'decoding' | 'streaming';
+  /** Fraction of the audio sent so far, 0..1. */
+  progress: number;
+}
+
+/** Structured translation reported by the model through the `record_translation` tool. */
+export interface TranslationResult {
+  /** English name of the language the phrase was spoken in. */
+  sourceLanguage: string;
+  sourceText: string;
+  /** English name of the language translated into. */
+  targetLanguage: string;
+  translation: string;
+  /** Latin-script transliteration, for targets written in other scripts. */
+  romanization?: string;
+}
+
+export interface GlossaryTerm {
+  id: string;
+  /** The term as it appears in source phrases. */
+  source: string;
+  /** Preferred translation keyed by the target language's English name. */
+  translations: Record<string, string>;
+  /** Keep the term verbatim in every language (brand and product names). */
+  doNotTranslate: boolean;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  terms: GlossaryTerm[];
+}
+
+export interface GlossaryViolation {
+  term: string;
+  /** What the translation should have contained. */
+  expected: string;
+  kind: 'missing-preferred' | 'translated-protected';
+}
+
+/** Timing for one exchange with the model, in milliseconds. */
+export interface TurnMetrics {
+  completedAt: number;
+  /** From the end of the user's speech (or a typed request) to the model's first audio; null if either was missing. */
+  latencyMs: number | null;
+  /** From the user's first input, or the model's first audio if there was none, to the turn completing. */
+  durationMs: number;
+}
+
+/** Performance and usage figures for one live session. */
+export interface SessionMetrics {
+  profileId: string;
+  sessionId: string;
+  voice: string;
+  transport: string;
+  startedAt: number;
+  endedAt: number | null;
+  /** How long the first connection took to open; null if it never did. */
+  connectMs: number | null;
+  reconnects: number;
+  interruptions: number;
+  audioSentSeconds: number;
+  audioReceivedSeconds: number;
+  turns: TurnMetrics[];
+}
+
+/** A source phrase and one saved translation of it. */
+export interface Phrase {
+  id: string;
+  sourceText: string;
+  sourceLanguage: string | null;
+  translation: string;
+  targetLanguage: string;
+  romanization?: string;
+  /** History entry holding the translation's recorded audio, if any. */
+  audioEntryId: string | null;
+  savedAt: number;
+}
+
+/** A translation that could be saved as a phrase; it gets its id and timestamp when it is. */
+export type PhraseDraft = Omit<Phrase, 'id' | 'savedAt'>;
+
+/** A named collection of saved phrases. */
+export interface Phrasebook {
+  id: string;
+  name: string;
+  phrases: Phrase[];
+}
+
+export type WordFeedbackStatus = 'correct' | 'close' | 'missed' | 'extra';
+
+export interface WordFeedback {
+  /** The expected word, or the unexpected word heard for `extra`. */
+  word: string;
+  status: WordFeedbackStatus;
+  /** What was heard in its place, for `close`. */
+  heard?: string;
+}
+
+/** How closely a practice attempt matched the phrase. */
+export interface PracticeResult {
+  /** Similarity of the transcript to the phrase, 0..1. */
+  score: number;
+  heard: string;
+  words: WordFeedback[];
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeWav, floatTo16BitPCM } from './utils';
+
+describe('floatTo16BitPCM', () => {
+  it('scales each half of the range to its own full scale', () => {
+    assert.deepEqual(Array.from(floatTo16BitPCM(Float32Array.from([-1, -0.5, 0, 0.5, 1]))), [-32768, -16384, 0, 16383, 32767]);
+  });
+
+  it('clips samples beyond ±1', () => {
+    assert.deepEqual(Array.from(floatTo16BitPCM(Float32Array.from([-3, -1.0001, 1.0001, 3]))), [-32768, -32768, 32767, 32767]);
+  });
+});
+
+describe('encodeWav', () => {
+  const text = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  it('writes a canonical RIFF/WAVE header ahead of the samples', () => {
+    const pcm = Uint8Array.from({ length: 480 }, (_, i) => i % 256);
+    const wav = encodeWav(pcm, 24000);
+    const view = new DataView(wav.buffer);
+
+    assert.equal(wav.byteLength, 44 + 480);
+    assert.equal(text(wav, 0), 'RIFF');
+    assert.equal(view.getUint32(4, true), 36 + 480);
+    assert.equal(text(wav, 8), 'WAVE');
+    assert.equal(text(wav, 12), 'fmt ');
+    assert.equal(view.getUint32(16, true), 16);
+    assert.equal(view.getUint16(20, true), 1);
+    assert.equal(view.getUint16(22, true), 1);
+    assert.equal(view.getUint32(24, true), 24000);
+    assert.equal(view.getUint32(28, true), 48000);
+    assert.equal(view.getUint16(32, true), 2);
+    assert.equal(view.getUint16(34, true), 16);
+    assert.equal(text(wav, 36), 'data');
+    assert.equal(view.getUint32(40, true), 480);
+    assert.deepEqual(wav.subarray(44), pcm);
+  });
+
+  it('scales the byte rate and block alignment with the channel count', () => {
+    const view = new DataView(encodeWav(new Uint8Array(8), 16000, 2).buffer);
+    assert.equal(view.getUint16(22, true), 2);
+    assert.equal(view.getUint32(28, true), 64000);
+    assert.equal(view.getUint16(32, true), 4);
+  });
+});
@@ -9,13 +9,24 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Table-driven so it also runs inside AudioWorklet scope, where btoa is unavailable.
 export function encode(bytes: Uint8Array): string {
-  let binary = '';
   const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const out = new Array<string>(Math.ceil(len / 3));
+  let j = 0;
+  for (let i = 0; i < len; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < len ? bytes[i + 1] : 0;
+    const b2 = i + 2 < len ? bytes[i + 2] : 0;
+    out[j++] =
+      BASE64_ALPHABET[b0 >> 2] +
+      BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)] +
+      (i + 1 < len ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=') +
+      (i + 2 < len ? BASE64_ALPHABET[b2 & 0x3f] : '=');
   }
-  return btoa(binary);
+  return out.join('');
 }
 
 export async function decodeAudioData(
@@ -37,14 +48,56 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
   }
+  return int16;
+}
+
+export function createBlob(data: Float32Array, sampleRate = 16000): { data: string; mimeType: string } {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(floatTo16BitPCM(data).buffer)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+/** Wraps little-endian 16-bit PCM in a canonical 44-byte RIFF/WAVE header. */
+export function encodeWav(pcm: Uint8Array, sampleRate: number, numChannels = 1): Uint8Array {
+  const bytesPerSample = 2;
+  const out = new Uint8Array(44 + pcm.byteLength);
+  const view = new DataView(out.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  out.set(pcm, 44);
+  return out;
+}
@@ -8,11 +8,22 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The relay holds the Gemini API key; see server/relay.ts.
+        proxy: {
+          '/api': `http://localhost:${env.RELAY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LIVE_TRANSPORT': JSON.stringify(env.LIVE_TRANSPORT),
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL),
+        'process.env.AUTH_PROVIDER': JSON.stringify(env.AUTH_PROVIDER),
+        'process.env.OAUTH_CLIENT_ID': JSON.stringify(env.OAUTH_CLIENT_ID),
+        'process.env.OAUTH_AUTHORIZE_URL': JSON.stringify(env.OAUTH_AUTHORIZE_URL),
+        'process.env.OAUTH_TOKEN_URL': JSON.stringify(env.OAUTH_TOKEN_URL),
+        'process.env.OAUTH_USERINFO_URL': JSON.stringify(env.OAUTH_USERINFO_URL),
+        'process.env.OAUTH_REVOKE_URL': JSON.stringify(env.OAUTH_REVOKE_URL),
+        'process.env.OAUTH_SCOPES': JSON.stringify(env.OAUTH_SCOPES)
       },
       resolve: {
         alias: {